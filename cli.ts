@@ -3,22 +3,80 @@
  * CLI entry point.
  *
  * Usage:
+ *   fintoc [--profile <name>] <command>
  *   fintoc login
  *   fintoc logout
  *   fintoc whoami
+ *   fintoc shell
+ *   fintoc completion bash|zsh|fish
+ *   fintoc spec
+ *   fintoc profiles list|use|add|remove
+ *   fintoc auth doctor [--fix]
+ *   fintoc auth token
+ *   fintoc routes audit [openapi.json|routes.txt] [--prefix /internal/]
+ *   fintoc mock-server [--port N] [--seed fixtures.json] [--otp CODE]
+ *   fintoc transfer-batches import <file.csv> [--currency CLP|MXN] [--map col=field]
  *   fintoc <resource> <action> [id] [--flags]
+ *   fintoc transfers receipt <id> --out receipt.pdf
+ *   fintoc exports create-transfers --wait [seconds] --out transfers.csv
  */
 
 // Load .env from project root before anything else
 import "./src/cli/config.ts";
 
-import { login, logout, whoami } from "./src/cli/commands.ts";
+import { login, logout, whoami, profiles, auth, routesCommand, mockServer } from "./src/cli/commands.ts";
+import { activateProfile, resolveProfileName } from "./src/cli/profiles.ts";
+import type { Profile } from "./src/cli/profiles.ts";
 import { getSessionToken } from "./src/cli/store.ts";
-import { parseCommand } from "./src/parser.ts";
-import { dispatch } from "./src/dispatcher.ts";
-import { routes } from "./src/routes.ts";
+import { parseArgs, readLocalSource } from "./src/parser.ts";
+import type { ParsedCommand } from "./src/parser.ts";
+import { previewFormat } from "./src/dispatcher.ts";
+import { runShell } from "./src/cli/shell.ts";
+import { renderCompletionScript, isCompletionShell, COMPLETION_SHELLS } from "./src/cli/completion.ts";
+import { routes, routeKey, routeSignature } from "./src/routes.ts";
+import { applyFlagFallbacks } from "./src/flags.ts";
+import { suggestResources, didYouMean } from "./src/suggest.ts";
+import { keepSessionAlive, promptRelogin, reloginMessage } from "./src/cli/keepalive.ts";
+import { prepareBatchImport } from "./src/cli/batch-import.ts";
+import { runParsedCommand } from "./src/cli/run.ts";
+import { buildOpenApiSpec } from "./src/openapi.ts";
 
 const args = process.argv.slice(2);
+
+// --profile <name> / --profile=<name> may appear anywhere (the last one wins);
+// strip every occurrence before command parsing
+let profileFlag: string | undefined;
+for (let i = 0; i < args.length && args[i] !== "--"; ) {
+  const arg = args[i]!;
+  if (arg !== "--profile" && !arg.startsWith("--profile=")) {
+    i++;
+    continue;
+  }
+  const value = arg === "--profile" ? args[i + 1] : arg.slice("--profile=".length);
+  if (!value || value.startsWith("--")) {
+    console.error("--profile requires a profile name");
+    process.exit(1);
+  }
+  profileFlag = value;
+  args.splice(i, arg === "--profile" ? 2 : 1);
+}
+
+let profileName: string;
+let profile: Profile;
+try {
+  profileName = await resolveProfileName(profileFlag);
+  profile = await activateProfile(profileName);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
+// Profile-level defaults, applied to routes that declare these flags
+const profileDefaults: Record<string, unknown> = {
+  mode: profile.mode,
+  current_organization_id: profile.organizationId,
+};
+
 const command = args[0];
 
 // ── Help ──────────────────────────────────────────────────────────────────────
@@ -33,6 +91,15 @@ fintoc — Fintoc CLI
   login                        Log in with email and password
   logout                       Log out and expire current session
   whoami                       Show current login status
+  shell                        Start an interactive shell
+  completion bash|zsh|fish     Print a shell completion script
+  spec                         Print the OpenAPI 3.1 spec of the routes and server
+  profiles list|use|add|remove Manage named profiles
+  auth doctor [--fix]          Check credential storage security
+  auth token                   Print the session token (for --as-curl snippets)
+  routes audit [file]          Check routes.ts, and compare it with an OpenAPI file or rails routes dump
+  mock-server [--port N]       Run a local mock API (--seed file, --otp code)
+  --profile <name>             Use a named profile for this command
   <resource> <action> [id]     Run an API command
   <resource> help              Show actions for a resource
   help                         Show this message
@@ -44,7 +111,25 @@ Examples:
   fintoc login
   fintoc user show
   fintoc transfers list --mode live --limit 10
+  fintoc transfers list --mode live --all --max-pages 20
+  fintoc transfers list --output table --columns id,amount,status
+  fintoc transfers list --query "[?status=='failed'].id"
+  fintoc transfers list --timeout 10
+  fintoc transfers receipt tr_123 --out receipt.pdf
+  fintoc billing download-invoice 1042 --out invoices/
+  fintoc exports create-transfers --file_type csv --wait --out transfers.csv
+  fintoc transfer-intents create --account_id acc_123 --amount 1000 --dry-run
+  fintoc transfers list --metadata.order_id 42 --as-curl
+  fintoc webhook-endpoints update we_123 --enabled_events a --enabled_events b --no-disabled
+  fintoc transfer-batches create --data @batch.json --mode live
+  fintoc transfer-batches import payouts.csv --mode live --description "Weekly payouts"
+  fintoc transfer-batches import payouts.csv --map monto_clp=amount,rut=holder_id --dry-run
+  generate-payouts | fintoc transfer-batches create --data - --otp_code 123456
   fintoc accounts list --mode live
+  fintoc accounts movement acc_123 mov_456
+  fintoc spec > openapi.json
+  fintoc login --profile staging
+  fintoc --profile prod transfers list
 `);
 }
 
@@ -54,16 +139,22 @@ function printResourceHelp(resource: string) {
   );
 
   if (matching.length === 0) {
-    console.error(`Unknown resource: "${resource}". Run "fintoc help" for available commands.`);
+    const suggestions = didYouMean(suggestResources(resource));
+    console.error(`Unknown resource: "${resource}".${suggestions} Run "fintoc help" for available commands.`);
     process.exit(1);
   }
 
   console.log(`\n  ${resource}\n`);
   for (const [key, route] of matching) {
     const action = key.split(".")[1]!;
-    const cmd = `fintoc ${resource} ${action}`.padEnd(45);
+    const signature = routeSignature(route);
+    const cmd = `fintoc ${resource} ${action}${signature ? ` ${signature}` : ""}`.padEnd(45);
     console.log(`  ${cmd} ${route.description ?? ""}`);
   }
+  if (resource === "transfer-batches") {
+    const cmd = "fintoc transfer-batches import <file.csv>".padEnd(45);
+    console.log(`  ${cmd} Validate a payouts CSV and submit it as a batch (--currency, --map, --yes)`);
+  }
   console.log();
 }
 
@@ -77,7 +168,7 @@ if (!cleanCommand || cleanCommand === "help" || cleanCommand === "--help" || cle
 
 // `fintoc <resource> help`
 if (args[1] === "help" || args[1] === "--help") {
-  printResourceHelp(command);
+  printResourceHelp(cleanCommand);
   process.exit(0);
 }
 
@@ -98,21 +189,96 @@ if (command === "whoami") {
   process.exit(0);
 }
 
+if (command === "profiles") {
+  await profiles(args.slice(1));
+  process.exit(0);
+}
+
+if (command === "auth") {
+  await auth(args.slice(1));
+  process.exit(0);
+}
+
+if (command === "routes") {
+  await routesCommand(args.slice(1));
+  process.exit(0);
+}
+
+if (command === "mock-server") {
+  await mockServer(args.slice(1));
+}
+
+// ── Shell completion ──────────────────────────────────────────────────────────
+
+if (command === "completion") {
+  const shell = args[1];
+  if (!isCompletionShell(shell)) {
+    console.error(`Usage: fintoc completion ${COMPLETION_SHELLS.join("|")}`);
+    process.exit(1);
+  }
+  process.stdout.write(renderCompletionScript(shell));
+  process.exit(0);
+}
+
+// ── OpenAPI spec ──────────────────────────────────────────────────────────────
+
+if (command === "spec") {
+  console.log(JSON.stringify(buildOpenApiSpec(), null, 2));
+  process.exit(0);
+}
+
 // ── API dispatch ──────────────────────────────────────────────────────────────
 
-const token = await getSessionToken();
-if (!token) {
-  console.error('Not logged in. Run "fintoc login" first.');
+let parsed: ParsedCommand;
+try {
+  // argv is already split by the shell; no re-tokenizing
+  parsed = parseArgs(args, { readSource: readLocalSource });
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
   process.exit(1);
 }
 
-const commandStr = `fintoc ${args.join(" ")}`;
-const parsed = parseCommand(commandStr);
-const result = await dispatch(parsed, token);
+// --dry-run / --as-curl / --as-httpie never call the API, so they work without a session
+const dryRun = previewFormat(parsed.flags) !== undefined;
 
-if (result.success) {
-  console.log(result.text);
-} else {
-  console.error(result.text || result.error);
+let token = await getSessionToken();
+if (!token && dryRun) {
+  token = "";
+} else if (!token) {
+  const loginHint = profileFlag ? `fintoc login --profile ${profileName}` : "fintoc login";
+  console.error(`Not logged in (profile: ${profileName}). Run "${loginHint}" first.`);
   process.exit(1);
 }
+
+// Extend the session if it is about to lapse; offer to log in again if it already has
+if (!dryRun && (await keepSessionAlive()) === "expired") {
+  token = await promptRelogin();
+  if (!token) {
+    console.error(reloginMessage());
+    process.exit(1);
+  }
+}
+
+if (command === "shell") {
+  await runShell(token, profileDefaults);
+  process.exit(0);
+}
+
+// `transfer-batches import <file.csv>` validates the CSV, then runs as transfer-batches create
+if (parsed.resource === "transfer-batches" && parsed.action === "import") {
+  try {
+    applyFlagFallbacks(parsed.flags, profileDefaults, routes["transfer-batches.create"]);
+    parsed = await prepareBatchImport(parsed, token, { dryRun });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+applyFlagFallbacks(parsed.flags, profileDefaults, routes[routeKey(parsed.resource, parsed.action)]);
+
+const outcome = await runParsedCommand(parsed, token, {
+  relogin: promptRelogin,
+  // Files without --out go to stdout as raw bytes when it is piped
+  pipeFiles: !process.stdout.isTTY,
+});
+process.exit(outcome.success ? 0 : 1);
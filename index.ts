@@ -1,5 +1,6 @@
 import { streamAgent } from "./openai";
 import { parseCommand } from "./src/parser.ts";
+import type { ParsedCommand } from "./src/parser.ts";
 import { dispatch } from "./src/dispatcher.ts";
 import { getAuth0Token } from "./src/cli/auth0.ts";
 import {
@@ -9,13 +10,18 @@ import {
   activateSession,
   getRawToken,
 } from "./src/cli/session.ts";
+import { buildOpenApiSpec } from "./src/openapi.ts";
 
 const PORT = Number(process.env.PORT) || 4000;
 
+// Built once: the route table does not change while the server runs
+const openApiSpec = buildOpenApiSpec({ serverUrl: `http://localhost:${PORT}` });
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Expose-Headers": "Content-Disposition",
 };
 
 function withCors(response: Response): Response {
@@ -45,9 +51,24 @@ Bun.serve({
 
         // Parse the command from the request body
         let command: string;
+        let options: { output?: string; columns?: string | string[]; query?: string; dryRun?: boolean; raw?: boolean };
         try {
-          const body = await req.json();
-          command = (body as { command: string }).command;
+          const body = (await req.json()) as {
+            command: string;
+            output?: string;
+            columns?: string | string[];
+            query?: string;
+            dry_run?: boolean;
+            raw?: boolean;
+          };
+          command = body.command;
+          options = {
+            output: body.output,
+            columns: body.columns,
+            query: body.query,
+            dryRun: body.dry_run,
+            raw: body.raw,
+          };
         } catch {
           return withCors(
             Response.json(
@@ -66,12 +87,58 @@ Bun.serve({
           );
         }
 
-        // Parse and dispatch the command
-        const parsed = parseCommand(command);
+        // Parse and dispatch the command. Body-level output options apply
+        // unless the command string sets its own --output / --columns / --query.
+        // "dry_run": true resolves the request without calling the API.
+        // "raw": true returns file responses as bytes (see below).
+        // No readSource: --data @file / --data - must not reach the server's disk or stdin
+        let parsed: ParsedCommand;
+        try {
+          parsed = parseCommand(command);
+        } catch (err) {
+          return withCors(
+            Response.json(
+              { error: err instanceof Error ? err.message : "Invalid command" },
+              { status: 400 }
+            )
+          );
+        }
+        if (options.output && parsed.flags.output === undefined) {
+          parsed.flags.output = options.output;
+        }
+        if (options.columns && parsed.flags.columns === undefined) {
+          parsed.flags.columns = options.columns;
+        }
+        if (options.query && parsed.flags.query === undefined) {
+          parsed.flags.query = options.query;
+        }
+        if (options.dryRun) {
+          parsed.flags["dry-run"] = true;
+        }
         const result = await dispatch(parsed, token);
 
+        // "raw": true sends file responses (receipts, invoices) as bytes instead of base64 in JSON
+        if (options.raw && result.binary) {
+          const headers: Record<string, string> = {
+            "Content-Type": result.headers?.["content-type"] ?? "application/octet-stream",
+          };
+          const disposition = result.headers?.["content-disposition"];
+          if (disposition) headers["Content-Disposition"] = disposition;
+          return withCors(new Response(Buffer.from(String(result.data), "base64"), { headers }));
+        }
+
         const status = result.status || (result.success ? 200 : 400);
-        return withCors(Response.json({ output: result.text }, { status }));
+        return withCors(
+          Response.json(
+            {
+              output: result.text,
+              ...(result.dryRun && { request: result.data }),
+              ...(result.suggestions && { suggestions: result.suggestions }),
+              ...(result.warnings && { warnings: result.warnings }),
+            },
+            { status }
+          )
+        );
       },
     },
     "/login": {
@@ -240,6 +307,10 @@ Bun.serve({
         });
       },
     },
+    "/openapi.json": {
+      OPTIONS: () => new Response(null, { status: 204, headers: corsHeaders }),
+      GET: () => withCors(Response.json(openApiSpec)),
+    },
   },
   fetch(req) {
     if (req.method === "OPTIONS") {
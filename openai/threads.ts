@@ -3,6 +3,8 @@ import type { ChatCompletionMessageParam } from "openai/resources/chat/completio
 export interface PendingAction {
   type: "create_transfer";
   data: Record<string, unknown>;
+  /** Sent as Idempotency-Key on every confirm attempt for this action */
+  idempotencyKey: string;
 }
 
 export interface Thread {
@@ -0,0 +1,32 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ChatCompletionRunner } from "openai/lib/ChatCompletionRunner";
+import { buildTools } from "./tools.ts";
+import { ejectCassette, useCassette } from "../src/cassette.ts";
+
+const CASSETTE = new URL("../fixtures/transfers.json", import.meta.url).pathname;
+
+describe("tools with a replayed cassette", () => {
+  const tools = buildTools("thread_test", "token", { mode: "test" });
+
+  /** Parse the arguments the way the runner does, then call the handler */
+  async function callTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+    const tool = tools.find((t) => t.function.name === name);
+    if (!tool) throw new Error(`No tool named ${name}`);
+    const parsed = await tool.function.parse(JSON.stringify(args));
+    const output = await tool.function.function(parsed, new ChatCompletionRunner());
+    return JSON.parse(String(output));
+  }
+
+  beforeAll(() => useCassette(CASSETTE, "replay"));
+  afterAll(() => ejectCassette());
+
+  test("get_transfers returns the recorded transfers", async () => {
+    const transfers = (await callTool("get_transfers", { limit: 2 })) as { id: string }[];
+    expect(transfers.map((t) => t.id)).toEqual(["tr_000001", "tr_000002"]);
+  });
+
+  test("get_transfer_by_id returns the recorded transfer", async () => {
+    const transfer = await callTool("get_transfer_by_id", { transfer_id: "tr_000001" });
+    expect(transfer).toMatchObject({ id: "tr_000001", direction: "outbound" });
+  });
+});
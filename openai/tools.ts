@@ -1,9 +1,14 @@
 import { z } from "zod/v4";
 import type { RunnableToolFunctionWithParse } from "openai/lib/RunnableFunction";
 import { setPendingAction, getPendingAction } from "./threads";
+import type { PendingAction } from "./threads";
 import { dispatch } from "../src/dispatcher";
+import type { DispatchResult } from "../src/dispatcher";
 import { resolveRoute, getAllRoutes } from "./navigation";
 import type { ParsedCommand } from "../src/parser";
+import { routes } from "../src/routes";
+import { waitForExport, exportDownloadUrl, isExportRecord } from "../src/exports";
+import { createFintoc, FintocApiError } from "../src/sdk";
 
 // ── Tool factory ──
 
@@ -44,6 +49,18 @@ async function runCommand(
   id?: string,
   context?: BuildToolsContext
 ): Promise<string> {
+  const result = await dispatchCommand(token, resource, action, flags, id, context);
+  return JSON.stringify(result.data);
+}
+
+async function dispatchCommand(
+  token: string,
+  resource: string,
+  action: string,
+  flags: Record<string, unknown> = {},
+  id?: string,
+  context?: BuildToolsContext
+): Promise<DispatchResult> {
   // Inject org and mode defaults so the LLM doesn't need to specify them
   if (context?.organizationId) {
     flags.current_organization_id = context.organizationId;
@@ -52,8 +69,20 @@ async function runCommand(
     flags.mode = context.mode;
   }
   const command: ParsedCommand = { resource, action, flags, id };
-  const result = await dispatch(command, token);
-  return JSON.stringify(result.data);
+  return dispatch(command, token);
+}
+
+/**
+ * Run a typed client call and stringify the result. API errors are
+ * returned as their error body, like runCommand().
+ */
+async function runClient(call: () => Promise<unknown>): Promise<string> {
+  try {
+    return JSON.stringify(await call());
+  } catch (error) {
+    if (error instanceof FintocApiError) return JSON.stringify(error.data);
+    return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+  }
 }
 
 // ══════════════════════════════════════════════════════════════
@@ -222,6 +251,25 @@ const ListRecipientsParameters = z.object({
   search: z.string().optional().describe("Search recipients by name (holder_name). Use this when the user mentions a recipient by name to find matches."),
 });
 
+// ── Exports ──
+
+const EXPORT_ACTIONS = {
+  transfers: "create-transfers",
+  transfer_intents: "create-transfer-intents",
+  account_movements: "create-account-movements",
+  payments: "create",
+} as const;
+
+/** Longest the tool blocks on one call; longer exports are resumed with export_id. */
+const EXPORT_TOOL_MAX_WAIT_SECONDS = 120;
+
+const ExportDataParameters = z.object({
+  kind: z.enum(["transfers", "transfer_intents", "account_movements", "payments"]).describe("What to export: 'transfers', 'transfer_intents', 'account_movements' or 'payments'."),
+  file_type: z.enum(["csv", "xlsx"]).optional().describe("File format. Defaults to the API's default (usually CSV)."),
+  export_id: z.string().optional().describe("ID of an export started earlier that was still processing (e.g. 'exp_abc123'). Pass it with the same kind to keep waiting instead of creating a new export."),
+  wait_seconds: z.number().optional().describe(`How long to wait for the file, in seconds (max ${EXPORT_TOOL_MAX_WAIT_SECONDS}). Defaults to 60.`),
+});
+
 // ── Navigation ──
 
 const NavigateToPageParameters = z.object({
@@ -233,6 +281,8 @@ const NavigateToPageParameters = z.object({
 // ══════════════════════════════════════════════════════════════
 
 export function buildTools(threadId: string, token: string, context: BuildToolsContext = {}, onNavigate?: OnNavigateCallback): Tool[] {
+  const fintoc = createFintoc({ token, mode: context.mode, organizationId: context.organizationId });
+
   // ── MFA-aware handlers ──
 
   async function createTransferIntent(args: z.infer<typeof CreateTransferIntentParameters>): Promise<string> {
@@ -254,6 +304,7 @@ export function buildTools(threadId: string, token: string, context: BuildToolsC
     setPendingAction(threadId, {
       type: "create_transfer",
       data: pendingData,
+      idempotencyKey: crypto.randomUUID(),
     });
     return JSON.stringify({
       status: "mfa_required",
@@ -277,28 +328,73 @@ export function buildTools(threadId: string, token: string, context: BuildToolsC
       return JSON.stringify({ error: "El código OTP debe ser exactamente 6 dígitos numéricos." });
     }
     // Execute the pending action via the CLI dispatcher
-    const result = await executePendingAction(pending.type, pending.data, args.otp_code, token);
-    setPendingAction(threadId, null);
-    return result;
+    const result = await executePendingAction(pending, args.otp_code, token);
+    // Keep the action (and its idempotency key) only when the outcome is unknown
+    // (no response, or a 5xx), so confirming again replays the same request
+    // instead of a new transfer. Validation and 4xx errors are final.
+    const indeterminate = result.networkError === true || (result.status !== undefined && result.status >= 500);
+    if (!indeterminate) setPendingAction(threadId, null);
+    return JSON.stringify(result.data ?? { error: result.error });
+  }
+
+  // ── Exports: create (or resume) and wait until the file is ready ──
+
+  async function exportData(args: z.infer<typeof ExportDataParameters>): Promise<string> {
+    const action = EXPORT_ACTIONS[args.kind];
+    const pollRoute = routes[`exports.${action}`]?.pollRoute;
+    if (!pollRoute) return JSON.stringify({ error: `Exporting ${args.kind} is not supported.` });
+
+    let exportId = args.export_id;
+    if (!exportId) {
+      const flags: Record<string, unknown> = {};
+      if (args.file_type) flags.file_type = args.file_type;
+      const created = await dispatchCommand(token, "exports", action, flags, undefined, context);
+      if (!created.success || !isExportRecord(created.data)) {
+        return JSON.stringify(created.data ?? { error: created.error });
+      }
+      exportId = created.data.id;
+    }
+
+    const pollFlags: Record<string, unknown> = {};
+    if (context.organizationId) pollFlags.current_organization_id = context.organizationId;
+    if (context.mode) pollFlags.mode = context.mode;
+    const waitSeconds = Math.min(Math.max(args.wait_seconds ?? 60, 1), EXPORT_TOOL_MAX_WAIT_SECONDS);
+
+    try {
+      const outcome = await waitForExport(pollRoute, exportId, token, { flags: pollFlags, timeoutMs: waitSeconds * 1000 });
+      if (outcome.state === "ready") {
+        return JSON.stringify({ status: "ready", export_id: exportId, download_url: exportDownloadUrl(outcome.record), export: outcome.record });
+      }
+      if (outcome.state === "failed") {
+        return JSON.stringify({ status: "failed", export_id: exportId, export: outcome.record });
+      }
+      return JSON.stringify({
+        status: "processing",
+        export_id: exportId,
+        message: `La exportación ${exportId} sigue en proceso. Vuelve a llamar export_data con export_id para seguir esperando.`,
+      });
+    } catch (error) {
+      return JSON.stringify({ error: error instanceof Error ? error.message : String(error), export_id: exportId });
+    }
   }
 
   // ── Execute pending MFA actions via CLI dispatcher ──
 
   async function executePendingAction(
-    type: string,
-    data: Record<string, unknown>,
+    pending: PendingAction,
     otpCode: string,
     apiToken: string
-  ): Promise<string> {
-    if (type === "create_transfer") {
+  ): Promise<DispatchResult> {
+    if (pending.type === "create_transfer") {
       const flags: Record<string, unknown> = {
-        ...data,
+        ...pending.data,
         otp_code: otpCode,
+        "idempotency-key": pending.idempotencyKey,
       };
-      return runCommand(apiToken, "transfer-intents", "create", flags, undefined, context);
+      return dispatchCommand(apiToken, "transfer-intents", "create", flags, undefined, context);
     }
 
-    return JSON.stringify({ error: "Unknown action type" });
+    return { success: false, error: "Unknown action type" };
   }
 
   // ══════════════════════════════════════════════════════════════
@@ -354,7 +450,7 @@ export function buildTools(threadId: string, token: string, context: BuildToolsC
       description: "List all configured webhook endpoints for the organization. Returns each endpoint's ID, name, URL, subscribed events, and enabled/disabled status. The environment mode (live/test) is automatically set from the user's session.",
       schema: ListWebhooksParameters,
       handler: async () => {
-        return runCommand(token, "webhook-endpoints", "list", {}, undefined, context);
+        return runClient(() => fintoc.webhookEndpoints.list());
       },
     }),
     createTool({
@@ -362,12 +458,14 @@ export function buildTools(threadId: string, token: string, context: BuildToolsC
       description: "Create a new webhook endpoint to receive event notifications via HTTP POST. Requires a URL and a list of event types to subscribe to. The mode defaults to the session's current mode, but can be explicitly overridden (e.g. set to 'live' when promoting a test webhook to production).",
       schema: CreateWebhookParameters,
       handler: async (args) => {
-        const flags: Record<string, unknown> = {};
-        if (args.name) flags.name = args.name;
-        flags.url = args.url;
-        flags.enabled_events = args.enabled_events;
-        if (args.mode) flags.mode = args.mode;
-        return runCommand(token, "webhook-endpoints", "create", flags, undefined, context);
+        return runClient(() =>
+          fintoc.webhookEndpoints.create({
+            name: args.name || undefined,
+            url: args.url,
+            enabled_events: args.enabled_events,
+            mode: args.mode,
+          })
+        );
       },
     }),
     createTool({
@@ -375,12 +473,15 @@ export function buildTools(threadId: string, token: string, context: BuildToolsC
       description: "Update an existing webhook endpoint's configuration. Can change the URL, subscribed events, name, or enable/disable the endpoint. The environment mode (live/test) is automatically set from the user's session.",
       schema: UpdateWebhookParameters,
       handler: async (args) => {
-        const flags: Record<string, unknown> = {};
-        if (args.name) flags.name = args.name;
-        if (args.url) flags.url = args.url;
-        if (args.enabled_events) flags.enabled_events = args.enabled_events;
-        if (args.disabled !== undefined) flags.disabled = args.disabled;
-        return runCommand(token, "webhook-endpoints", "update", flags, args.webhook_id, context);
+        return runClient(() =>
+          fintoc.webhookEndpoints.update({
+            id: args.webhook_id,
+            name: args.name || undefined,
+            url: args.url || undefined,
+            enabled_events: args.enabled_events,
+            disabled: args.disabled,
+          })
+        );
       },
     }),
     createTool({
@@ -388,7 +489,7 @@ export function buildTools(threadId: string, token: string, context: BuildToolsC
       description: "Permanently delete a webhook endpoint. This stops all event deliveries to that URL. This action cannot be undone. The environment mode (live/test) is automatically set from the user's session.",
       schema: DeleteWebhookParameters,
       handler: async (args) => {
-        return runCommand(token, "webhook-endpoints", "delete", {}, args.webhook_id, context);
+        return runClient(() => fintoc.webhookEndpoints.delete({ id: args.webhook_id }));
       },
     }),
     createTool({
@@ -484,11 +585,7 @@ export function buildTools(threadId: string, token: string, context: BuildToolsC
       description: "Send a fake/test webhook event to an existing webhook endpoint. Only works in test mode. The endpoint must be subscribed to the event type. Use this to help the user verify their webhook integration is receiving events correctly.",
       schema: SendTestWebhookParameters,
       handler: async (args) => {
-        const flags: Record<string, unknown> = {
-          event: args.event,
-          mode: "test",
-        };
-        return runCommand(token, "webhook-endpoints", "test", flags, args.webhook_id, context);
+        return runClient(() => fintoc.webhookEndpoints.test({ id: args.webhook_id, event: args.event, mode: "test" }));
       },
     }),
 
@@ -683,6 +780,14 @@ export function buildTools(threadId: string, token: string, context: BuildToolsC
       },
     }),
 
+    // ── Exports ──
+    createTool({
+      name: "export_data",
+      description: "Export transfers, transfer intents, account movements or payments to a file and wait until it is ready. Returns the download_url of the finished file so you can hand it to the user. Large exports may still be processing when the call returns: then call again with the returned export_id to keep waiting. The environment mode (live/test) is automatically set from the user's session.",
+      schema: ExportDataParameters,
+      handler: exportData,
+    }),
+
     // ── Navigation ──
     createTool({
       name: "navigate_to_page",
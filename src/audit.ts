@@ -0,0 +1,237 @@
+/**
+ * Route table consistency checks.
+ *
+ * checkRouteTable() catches mistakes inside routes.ts itself: malformed
+ * keys (no action part) and two keys pointing at the same endpoint.
+ *
+ * auditRoutes() compares the table with the dashboard API as described by
+ * a local OpenAPI document (JSON or YAML) or a `bin/rails routes` dump,
+ * reporting endpoints missing from the table, routes the API does not
+ * have, and paths where the HTTP methods disagree.
+ *
+ * Used by `fintoc routes audit`.
+ */
+
+import { routes } from "./routes.ts";
+import type { RouteDefinition } from "./routes.ts";
+
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+type Method = (typeof METHODS)[number];
+
+/** "resource.action", both lowercase kebab-case */
+const ROUTE_KEY = /^[a-z0-9]+(?:-[a-z0-9]+)*\.[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Only endpoints under this prefix are compared by default. */
+export const DEFAULT_AUDIT_PREFIX = "/internal/";
+
+export interface Endpoint {
+  method: Method;
+  path: string;
+}
+
+export interface RouteTableProblem {
+  key: string;
+  message: string;
+}
+
+export interface MethodMismatch {
+  path: string;
+  /** Routes for this path whose method the API does not have */
+  routes: { key: string; method: Method }[];
+  /** Methods the API declares for this path that no route uses */
+  source: Method[];
+}
+
+export interface AuditReport {
+  /** API endpoints with no route */
+  missing: Endpoint[];
+  /** Routes with no API endpoint */
+  extra: { key: string; method: Method; path: string }[];
+  /** Paths present on both sides with different methods */
+  mismatched: MethodMismatch[];
+  /** Number of API endpoints compared (after the prefix filter) */
+  compared: number;
+}
+
+function isMethod(value: string): value is Method {
+  return (METHODS as readonly string[]).includes(value);
+}
+
+/**
+ * Reduce a path to a comparable shape: optional groups like "(.:format)"
+ * and trailing slashes are dropped, and every parameter (":id", "{id}",
+ * "*path") becomes "{}".
+ */
+export function normalizePath(path: string): string {
+  const normalized = path
+    .replace(/\([^()]*\)/g, "")
+    .replace(/[?#].*$/, "")
+    .replace(/\{[^}]+\}|:\w+|\*\w+/g, "{}")
+    .replace(/\/+$/, "");
+  return normalized || "/";
+}
+
+/**
+ * Problems inside the route table itself. An empty list means it is
+ * well-formed.
+ */
+export function checkRouteTable(table: Record<string, RouteDefinition> = routes): RouteTableProblem[] {
+  const problems: RouteTableProblem[] = [];
+  const endpoints = new Map<string, string>();
+
+  for (const [key, route] of Object.entries(table)) {
+    if (!ROUTE_KEY.test(key)) {
+      const reason = key.includes(".") ? "expected lowercase resource.action" : "no action part";
+      problems.push({ key, message: `Malformed route key (${reason})` });
+    }
+    if (!isMethod(route.method)) {
+      problems.push({ key, message: `Unknown HTTP method ${JSON.stringify(route.method)}` });
+    }
+    if (!route.path.startsWith("/")) {
+      problems.push({ key, message: `Path must start with "/": ${route.path}` });
+    }
+
+    const endpoint = `${route.method} ${normalizePath(route.path)}`;
+    const existing = endpoints.get(endpoint);
+    if (existing) {
+      problems.push({ key, message: `Same endpoint as ${existing} (${route.method} ${route.path})` });
+    } else {
+      endpoints.set(endpoint, key);
+    }
+  }
+
+  return problems;
+}
+
+function openApiEndpoints(document: Record<string, unknown>): Endpoint[] {
+  const paths = document.paths;
+  if (!paths || typeof paths !== "object") return [];
+
+  const endpoints: Endpoint[] = [];
+  for (const [path, item] of Object.entries(paths as Record<string, unknown>)) {
+    if (!item || typeof item !== "object") continue;
+    for (const key of Object.keys(item)) {
+      const method = key.toUpperCase();
+      if (isMethod(method)) endpoints.push({ method, path });
+    }
+  }
+  return endpoints;
+}
+
+/**
+ * Parse `bin/rails routes` output, in the default column layout or with
+ * --expanded. Verbs like "GET|POST" yield one endpoint per method;
+ * unsupported verbs (HEAD, OPTIONS, redirects) are skipped.
+ */
+function railsEndpoints(text: string): Endpoint[] {
+  const endpoints: Endpoint[] = [];
+  const add = (verbs: string, path: string) => {
+    for (const verb of verbs.split("|")) {
+      if (isMethod(verb)) endpoints.push({ method: verb, path });
+    }
+  };
+
+  let expandedVerb: string | undefined;
+  for (const line of text.split(/\r?\n/)) {
+    const expanded = line.match(/^\s*(Verb|URI)\s*\|\s*(\S*)/);
+    if (expanded) {
+      if (expanded[1] === "Verb") {
+        expandedVerb = expanded[2];
+      } else if (expandedVerb !== undefined && expanded[2]?.startsWith("/")) {
+        add(expandedVerb, expanded[2]);
+        expandedVerb = undefined;
+      }
+      continue;
+    }
+
+    const columns = line.match(/(?:^|\s)([A-Z]+(?:\|[A-Z]+)*)\s+(\/\S*)/);
+    if (columns) add(columns[1]!, columns[2]!);
+  }
+  return endpoints;
+}
+
+/**
+ * Read the API's endpoints from an OpenAPI document (JSON, or YAML when
+ * the file name says so) or a Rails routes dump. Throws when nothing
+ * usable is found.
+ */
+export function loadEndpoints(text: string, filename: string): Endpoint[] {
+  let document: unknown;
+  try {
+    document = /\.ya?ml$/i.test(filename) ? Bun.YAML.parse(text) : JSON.parse(text);
+  } catch {
+    document = undefined;
+  }
+
+  const isOpenApi = !!document && typeof document === "object" && "paths" in document;
+  const endpoints = isOpenApi
+    ? openApiEndpoints(document as Record<string, unknown>)
+    : railsEndpoints(text);
+
+  if (endpoints.length === 0) {
+    throw new Error(
+      `${filename}: no endpoints found. Expected an OpenAPI document (JSON or YAML) or the output of "bin/rails routes".`
+    );
+  }
+  return endpoints;
+}
+
+/**
+ * Compare the route table with the API's endpoints. Only paths under
+ * `prefix` are compared on either side. When a path exists on both sides
+ * but some methods differ on each, it is reported as a mismatch rather
+ * than as a missing plus an extra entry.
+ */
+export function auditRoutes(
+  endpoints: Endpoint[],
+  options: { prefix?: string; table?: Record<string, RouteDefinition> } = {}
+): AuditReport {
+  const prefix = options.prefix ?? DEFAULT_AUDIT_PREFIX;
+  const table = options.table ?? routes;
+
+  // Keyed by normalized path; `path` keeps the source's spelling for the report
+  const source = new Map<string, { path: string; methods: Set<Method> }>();
+  for (const endpoint of endpoints) {
+    if (!endpoint.path.startsWith(prefix)) continue;
+    const normalized = normalizePath(endpoint.path);
+    const entry = source.get(normalized) ?? { path: endpoint.path.replace(/\([^()]*\)/g, ""), methods: new Set() };
+    source.set(normalized, entry);
+    entry.methods.add(endpoint.method);
+  }
+
+  const local = new Map<string, { key: string; method: Method; path: string }[]>();
+  for (const [key, route] of Object.entries(table)) {
+    if (!route.path.startsWith(prefix)) continue;
+    const path = normalizePath(route.path);
+    local.set(path, [...(local.get(path) ?? []), { key, method: route.method, path: route.path }]);
+  }
+
+  const report: AuditReport = { missing: [], extra: [], mismatched: [], compared: 0 };
+  for (const [normalized, { path, methods }] of source) {
+    report.compared += methods.size;
+    const defined = local.get(normalized) ?? [];
+    const onlySource = [...methods].filter((method) => !defined.some((r) => r.method === method));
+    const onlyLocal = defined.filter((r) => !methods.has(r.method));
+
+    // Both sides have the path but disagree: most likely a wrong method in routes.ts
+    if (onlySource.length > 0 && onlyLocal.length > 0) {
+      report.mismatched.push({
+        path,
+        routes: onlyLocal.map(({ key, method }) => ({ key, method })),
+        source: onlySource,
+      });
+    } else {
+      report.missing.push(...onlySource.map((method) => ({ method, path })));
+      report.extra.push(...onlyLocal);
+    }
+  }
+  for (const [normalized, defined] of local) {
+    if (!source.has(normalized)) report.extra.push(...defined);
+  }
+
+  const byPath = (a: { path: string }, b: { path: string }) => a.path.localeCompare(b.path);
+  report.missing.sort(byPath);
+  report.extra.sort(byPath);
+  report.mismatched.sort(byPath);
+  return report;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { isValidClabe, isValidRut, parseBatchCsv, parseCsv } from "./batch.ts";
+import type { Bank } from "./batch.ts";
+
+const BANKS: Bank[] = [
+  { id: "cl_banco_estado", name: "BancoEstado", code: "012", country: "CL" },
+  { id: "mx_banorte", name: "Banorte", code: "072", country: "MX" },
+];
+
+describe("isValidRut", () => {
+  test("accepts valid RUTs in every format", () => {
+    expect(isValidRut("12.345.678-5")).toBe(true);
+    expect(isValidRut("12345678-5")).toBe(true);
+    expect(isValidRut("123456785")).toBe(true);
+    expect(isValidRut("10.000.013-k")).toBe(true);
+  });
+
+  test("rejects a wrong check digit or malformed input", () => {
+    expect(isValidRut("12.345.678-9")).toBe(false);
+    expect(isValidRut("12345")).toBe(false);
+    expect(isValidRut("abc")).toBe(false);
+  });
+});
+
+describe("isValidClabe", () => {
+  test("checks length and the check digit", () => {
+    expect(isValidClabe("002010077777777771")).toBe(true);
+    expect(isValidClabe("002010077777777772")).toBe(false);
+    expect(isValidClabe("00201007777777777")).toBe(false);
+    expect(isValidClabe("00201007777777777a")).toBe(false);
+  });
+});
+
+describe("parseCsv", () => {
+  test("reports the line each record starts on", () => {
+    const records = parseCsv('a,b\n1,"two\nlines"\n\n3,4\r\n5,6');
+    expect(records.map((r) => r.line)).toEqual([1, 2, 5, 6]);
+    expect(records[1]!.cells).toEqual(["1", "two\nlines"]);
+  });
+
+  test("uses ; when the header has no commas, and unescapes quotes", () => {
+    const records = parseCsv('name;comment\n"Ana";"says ""hi"""');
+    expect(records[1]!.cells).toEqual(["Ana", 'says "hi"']);
+  });
+});
+
+describe("parseBatchCsv", () => {
+  const header = "monto,nombre,rut,banco,cuenta,glosa";
+
+  test("builds rows and the total for CLP", () => {
+    const csv = `${header}\n1.200.000,Juan Pérez,12.345.678-5,012,123456789,Pago\n5000,Ana,10.000.013-K,BancoEstado,987654321,`;
+    const result = parseBatchCsv(csv, { currency: "CLP", banks: BANKS });
+
+    expect(result.errors).toEqual([]);
+    expect(result.total).toBe(1_205_000);
+    expect(result.rows[0]).toEqual({
+      amount: 1_200_000,
+      counterparty: {
+        holder_name: "Juan Pérez",
+        holder_id: "12.345.678-5",
+        institution_id: "cl_banco_estado",
+        type: "checking_account",
+        account_number: "123456789",
+      },
+      comment: "Pago",
+    });
+  });
+
+  test("rejects amounts whose separator is the currency's decimal point", () => {
+    const csv = 'amount,holder_name,holder_id,institution_id,account_number\n1.500,Ana,RFC1,072,002010077777777771\n"1,500",Ana,RFC1,072,002010077777777771';
+    const result = parseBatchCsv(csv, { currency: "MXN", banks: BANKS });
+
+    expect(result.rows.map((r) => r.amount)).toEqual([1500]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]!.line).toBe(2);
+    expect(result.errors[0]!.message).toStartWith('invalid amount "1.500"');
+
+    const clp = parseBatchCsv(`${header}\n"1,200",Ana,12.345.678-5,012,123456789,`, { currency: "CLP", banks: BANKS });
+    expect(clp.errors.map((e) => e.line)).toEqual([2]);
+  });
+
+  test("reports every row error with its CSV line", () => {
+    const csv = `${header}\n1000,Ana,12.345.678-9,012,123456789,\n\n2000,,12.345.678-5,unknown,12,`;
+    const result = parseBatchCsv(csv, { currency: "CLP", banks: BANKS });
+
+    expect(result.rows).toEqual([]);
+    expect(result.errors).toEqual([
+      { line: 2, message: 'invalid RUT "12.345.678-9"' },
+      { line: 4, message: "missing holder_name" },
+      { line: 4, message: 'invalid account number "12"' },
+      { line: 4, message: 'unknown institution "unknown" (see "fintoc banks list")' },
+    ]);
+  });
+
+  test("reports missing columns and unknown --map fields on the header line", () => {
+    expect(parseBatchCsv("monto,nombre\n1000,Ana", { currency: "CLP", banks: null }).errors).toEqual([
+      { line: 1, message: "Missing columns for: holder_id, institution_id, account_number. Rename the headers or use --map column=field." },
+    ]);
+    const mapped = parseBatchCsv(`${header}\n`, { currency: "CLP", banks: null, columnMap: { glosa: "memo" } });
+    expect(mapped.errors[0]!.message).toStartWith("--map glosa=memo: unknown field");
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * CSV → transfer batch rows, with validation.
+ *
+ * Used by `fintoc transfer-batches import payouts.csv`. Columns are
+ * matched by header name (see COLUMN_ALIASES, or --map col=field), each
+ * row is validated, and errors are reported with their CSV line number.
+ *
+ * Row shape sent to transfer-batches.create:
+ *   { amount, counterparty: { holder_name, holder_id, institution_id, type, account_number }, comment }
+ */
+
+export type BatchCurrency = "CLP" | "MXN";
+
+export type BatchField =
+  | "amount"
+  | "holder_name"
+  | "holder_id"
+  | "institution_id"
+  | "account_type"
+  | "account_number"
+  | "comment";
+
+export interface BatchRow {
+  amount: number;
+  counterparty: {
+    holder_name: string;
+    holder_id: string;
+    institution_id: string;
+    type: string;
+    account_number: string;
+  };
+  comment?: string;
+}
+
+export interface RowError {
+  line: number;
+  message: string;
+}
+
+export interface BatchParseResult {
+  rows: BatchRow[];
+  errors: RowError[];
+  total: number;
+}
+
+export interface Bank {
+  id: string;
+  name?: string;
+  code?: string;
+  country?: string;
+}
+
+/** Accepted header names per field (lowercase, spaces as underscores). */
+const COLUMN_ALIASES: Record<BatchField, string[]> = {
+  amount: ["amount", "monto", "amount_cents"],
+  holder_name: ["holder_name", "name", "nombre", "beneficiario"],
+  holder_id: ["holder_id", "rut", "rfc", "tax_id"],
+  institution_id: ["institution_id", "institution", "bank", "banco", "institution_code", "bank_code"],
+  account_type: ["account_type", "type", "tipo_cuenta", "tipo"],
+  account_number: ["account_number", "account", "cuenta", "numero_cuenta", "clabe"],
+  comment: ["comment", "description", "glosa", "reference", "referencia"],
+};
+
+const REQUIRED_FIELDS: BatchField[] = ["amount", "holder_name", "holder_id", "institution_id", "account_number"];
+
+const ACCOUNT_TYPES = ["checking_account", "savings_account", "vista_account"];
+
+// ── CSV ───────────────────────────────────────────────────────────────────────
+
+interface CsvRecord {
+  /** 1-based line where the record starts */
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting). The delimiter is "," or ";",
+ * whichever appears first in the header line.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const input = text.replace(/^﻿/, "");
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
+
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      cells.push(cell);
+      if (cells.some((c) => c.trim() !== "")) records.push({ line: recordLine, cells });
+      cells = [];
+      cell = "";
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  if (cells.some((c) => c.trim() !== "")) records.push({ line: recordLine, cells });
+
+  return records;
+}
+
+// ── Validators ────────────────────────────────────────────────────────────────
+
+/**
+ * Validate a Chilean RUT ("12.345.678-5", "12345678-5" or "123456785").
+ */
+export function isValidRut(value: string): boolean {
+  const clean = value.replace(/[.\s-]/g, "").toUpperCase();
+  if (!/^\d{7,8}[\dK]$/.test(clean)) return false;
+
+  const body = clean.slice(0, -1);
+  const verifier = clean.slice(-1);
+  let sum = 0;
+  let factor = 2;
+  for (let i = body.length - 1; i >= 0; i--) {
+    sum += Number(body[i]) * factor;
+    factor = factor === 7 ? 2 : factor + 1;
+  }
+  const expected = 11 - (sum % 11);
+  const digit = expected === 11 ? "0" : expected === 10 ? "K" : String(expected);
+  return digit === verifier;
+}
+
+/**
+ * Validate an 18-digit Mexican CLABE including its check digit.
+ */
+export function isValidClabe(value: string): boolean {
+  if (!/^\d{18}$/.test(value)) return false;
+  const weights = [3, 7, 1];
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    sum += (Number(value[i]) * weights[i % 3]!) % 10;
+  }
+  return (10 - (sum % 10)) % 10 === Number(value[17]);
+}
+
+/**
+ * Thousands separator per currency, as written locally. The other mark is
+ * the decimal point ("1.500" is 1.50 MXN), so it is never accepted.
+ */
+const THOUSANDS_SEPARATOR: Record<BatchCurrency, string> = { CLP: ".", MXN: "," };
+
+/**
+ * Parse an amount in the smallest currency unit: plain digits, or digits
+ * grouped with the currency's thousands separator ("1.200.000" for CLP,
+ * "1,200,000" for MXN). Decimals and the other separator are rejected.
+ */
+function parseAmount(value: string, currency: BatchCurrency): number | null {
+  const clean = value.replace(/[\s$]/g, "");
+  const separator = THOUSANDS_SEPARATOR[currency];
+  const grouped = new RegExp(`^\\d{1,3}(\\${separator}\\d{3})+$`);
+  if (!/^\d+$/.test(clean) && !grouped.test(clean)) return null;
+  const amount = Number(clean.split(separator).join(""));
+  return amount > 0 ? amount : null;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/\s+/g, "_");
+}
+
+/**
+ * Resolve which column index feeds each field.
+ * `overrides` maps a CSV header to a field ("monto_clp" -> "amount").
+ */
+function mapColumns(
+  headers: string[],
+  overrides: Record<string, string>
+): { columns: Partial<Record<BatchField, number>>; errors: string[] } {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<BatchField, number>> = {};
+  const errors: string[] = [];
+
+  for (const [header, field] of Object.entries(overrides)) {
+    const index = normalized.indexOf(normalizeHeader(header));
+    if (!(field in COLUMN_ALIASES)) {
+      errors.push(`--map ${header}=${field}: unknown field. Expected one of: ${Object.keys(COLUMN_ALIASES).join(", ")}`);
+    } else if (index === -1) {
+      errors.push(`--map ${header}=${field}: no column "${header}" in the CSV header`);
+    } else {
+      columns[field as BatchField] = index;
+    }
+  }
+
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES) as [BatchField, string[]][]) {
+    if (columns[field] !== undefined) continue;
+    const index = normalized.findIndex((h) => aliases.includes(h));
+    if (index !== -1) columns[field] = index;
+  }
+
+  const missing = REQUIRED_FIELDS.filter((field) => columns[field] === undefined);
+  if (missing.length > 0) {
+    errors.push(`Missing columns for: ${missing.join(", ")}. Rename the headers or use --map column=field.`);
+  }
+  return { columns, errors };
+}
+
+function findBank(banks: Bank[], value: string): Bank | undefined {
+  const needle = value.trim().toLowerCase();
+  return banks.find(
+    (bank) =>
+      bank.id.toLowerCase() === needle ||
+      bank.code?.toLowerCase() === needle ||
+      bank.name?.toLowerCase() === needle
+  );
+}
+
+// ── Rows ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Turn CSV text into validated batch rows. Rows with errors are left out
+ * of `rows`; check `errors` before submitting. With `banks: null`,
+ * institution values are passed through unchecked.
+ */
+export function parseBatchCsv(
+  text: string,
+  options: { currency: BatchCurrency; banks: Bank[] | null; columnMap?: Record<string, string> }
+): BatchParseResult {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return { rows: [], errors: [{ line: 1, message: "The CSV file is empty" }], total: 0 };
+
+  const { columns, errors: mapErrors } = mapColumns(header.cells, options.columnMap ?? {});
+  if (mapErrors.length > 0) {
+    return { rows: [], errors: mapErrors.map((message) => ({ line: header.line, message })), total: 0 };
+  }
+
+  const rows: BatchRow[] = [];
+  const errors: RowError[] = [];
+  const cell = (record: CsvRecord, field: BatchField) => {
+    const index = columns[field];
+    return index === undefined ? "" : (record.cells[index] ?? "").trim();
+  };
+
+  for (const record of records) {
+    const rowErrors: string[] = [];
+    for (const field of REQUIRED_FIELDS) {
+      if (!cell(record, field)) rowErrors.push(`missing ${field}`);
+    }
+
+    const amountText = cell(record, "amount");
+    const amount = amountText ? parseAmount(amountText, options.currency) : null;
+    if (amountText && amount === null) {
+      const separator = THOUSANDS_SEPARATOR[options.currency];
+      rowErrors.push(
+        `invalid amount "${amountText}" (expected a positive whole number in the smallest ${options.currency} unit; "${separator}" is the only thousands separator)`
+      );
+    }
+
+    const holderId = cell(record, "holder_id");
+    if (holderId && options.currency === "CLP" && !isValidRut(holderId)) {
+      rowErrors.push(`invalid RUT "${holderId}"`);
+    }
+
+    const accountNumber = cell(record, "account_number").replace(/[\s-]/g, "");
+    if (accountNumber) {
+      if (options.currency === "MXN" && !isValidClabe(accountNumber)) {
+        rowErrors.push(`invalid CLABE "${accountNumber}"`);
+      } else if (options.currency === "CLP" && !/^\d{4,20}$/.test(accountNumber)) {
+        rowErrors.push(`invalid account number "${accountNumber}"`);
+      }
+    }
+
+    const institution = cell(record, "institution_id");
+    const bank = institution && options.banks ? findBank(options.banks, institution) : undefined;
+    if (institution && options.banks && !bank) {
+      rowErrors.push(`unknown institution "${institution}" (see "fintoc banks list")`);
+    }
+
+    const accountType = cell(record, "account_type") || "checking_account";
+    if (!ACCOUNT_TYPES.includes(accountType)) {
+      rowErrors.push(`invalid account_type "${accountType}". Expected one of: ${ACCOUNT_TYPES.join(", ")}`);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors.map((message) => ({ line: record.line, message })));
+      continue;
+    }
+
+    const comment = cell(record, "comment");
+    rows.push({
+      amount: amount!,
+      counterparty: {
+        holder_name: cell(record, "holder_name"),
+        holder_id: holderId,
+        institution_id: bank?.id ?? institution,
+        type: accountType,
+        account_number: accountNumber,
+      },
+      ...(comment && { comment }),
+    });
+  }
+
+  if (records.length === 0) errors.push({ line: header.line, message: "The CSV file has no rows" });
+  const total = rows.reduce((sum, row) => sum + row.amount, 0);
+  return { rows, errors, total };
+}
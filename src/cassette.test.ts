@@ -0,0 +1,64 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { cassetteFetch, ejectCassette, useCassette } from "./cassette.ts";
+import { REDACTED } from "./redact.ts";
+
+describe("cassettes", () => {
+  const dir = mkdtempSync(join(tmpdir(), "fintoc-cassette-"));
+  const server = Bun.serve({ port: 0, fetch: () => Response.json({ id: "ti_1", status: "succeeded" }, { status: 201 }) });
+  const post = (path: string, body: Record<string, unknown>) =>
+    cassetteFetch(`${server.url.origin}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Session-Token": "secret-session" },
+      body: JSON.stringify(body),
+    });
+
+  beforeAll(() => ejectCassette());
+  afterEach(() => ejectCassette());
+  afterAll(() => {
+    server.stop(true);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("scrubs credentials from recorded requests", async () => {
+    const path = join(dir, "record.json");
+    useCassette(path, "record");
+    await post("/transfer_intents", { amount: 1000, otp_code: "123456", counterparty: { password: "hunter2" } });
+
+    const text = readFileSync(path, "utf8");
+    expect(text).not.toContain("123456");
+    expect(text).not.toContain("hunter2");
+    expect(text).not.toContain("secret-session");
+
+    const [interaction] = JSON.parse(text).interactions;
+    expect(JSON.parse(interaction.request.body)).toEqual({
+      amount: 1000,
+      otp_code: REDACTED,
+      counterparty: { password: REDACTED },
+    });
+  });
+
+  test("replays a scrubbed recording whatever the OTP", async () => {
+    const path = join(dir, "replay.json");
+    useCassette(path, "record");
+    await post("/transfer_intents", { amount: 1000, otp_code: "123456" });
+    useCassette(path, "replay");
+
+    const response = await post("/transfer_intents", { amount: 1000, otp_code: "654321" });
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ id: "ti_1", status: "succeeded" });
+  });
+
+  test("still matches cassettes recorded with raw bodies", async () => {
+    const path = join(dir, "legacy.json");
+    const body = Buffer.from(JSON.stringify({ id: "ti_2" })).toString("base64");
+    const request = { method: "POST", url: "/transfer_intents", headers: {}, body: JSON.stringify({ amount: 5, otp_code: "111111" }) };
+    writeFileSync(path, JSON.stringify({ version: 1, interactions: [{ request, response: { status: 201, headers: {}, body } }] }));
+    useCassette(path, "replay");
+
+    const response = await post("/transfer_intents", { amount: 5, otp_code: "222222" });
+    expect(await response.json()).toEqual({ id: "ti_2" });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Record/replay HTTP cassettes for apiRequest().
+ *
+ * Record mode performs real requests and appends each request/response
+ * pair to a JSON cassette file. Replay mode serves responses from the
+ * cassette without touching the network, so dispatch() and the agent
+ * tools can run deterministically without Rails.
+ *
+ *   FINTOC_CASSETTE=fixtures/transfers.json FINTOC_CASSETTE_MODE=record fintoc transfers list
+ *   FINTOC_CASSETTE=fixtures/transfers.json fintoc transfers list      (replays)
+ *
+ * FINTOC_CASSETTE_MODE defaults to "replay" when the file exists and
+ * "record" otherwise. Code can switch cassettes with useCassette().
+ *
+ * Credentials are scrubbed before anything is written: X-Session-Token,
+ * Cookie and Authorization request headers, Set-Cookie responses, and
+ * SENSITIVE_FLAGS fields (otp_code, password, ...) in JSON request bodies.
+ * Replay matches on the scrubbed body, so any OTP replays the recording.
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { redactHeaders, redactJsonBody } from "./redact.ts";
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    /** Path plus query string, without the host */
+    url: string;
+    headers: Record<string, string>;
+    /** Scrubbed with redactJsonBody() */
+    body?: string;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    /** Response body, base64-encoded so binary responses round-trip */
+    body: string;
+  };
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+interface ActiveCassette {
+  path: string;
+  mode: CassetteMode;
+  interactions: CassetteInteraction[];
+  /** Replay: interactions already served, so repeated requests advance */
+  used: Set<number>;
+}
+
+/** Headers that differ on every run; left out so re-recorded cassettes diff cleanly */
+const VOLATILE_HEADERS = ["idempotency-key"];
+
+let active: ActiveCassette | null = null;
+
+/** Thrown in replay mode when a request has no recorded interaction. Never retried. */
+export class CassetteMissError extends Error {
+  constructor(method: string, url: string, path: string) {
+    super(`No cassette interaction for ${method} ${url} (cassette: ${path})`);
+    this.name = "CassetteMissError";
+  }
+}
+
+function readCassette(path: string): CassetteInteraction[] {
+  if (!existsSync(path)) return [];
+  const file = JSON.parse(readFileSync(path, "utf8")) as CassetteFile;
+  return file.interactions ?? [];
+}
+
+function writeCassette(cassette: ActiveCassette): void {
+  mkdirSync(dirname(cassette.path), { recursive: true });
+  const file: CassetteFile = { version: 1, interactions: cassette.interactions };
+  writeFileSync(cassette.path, `${JSON.stringify(file, null, 2)}\n`);
+}
+
+/**
+ * Start recording to or replaying from a cassette file.
+ * Recording appends to an existing cassette.
+ */
+export function useCassette(path: string, mode?: CassetteMode): void {
+  const resolvedMode = mode ?? (existsSync(path) ? "replay" : "record");
+  if (resolvedMode === "replay" && !existsSync(path)) {
+    throw new Error(`Cassette not found: ${path}`);
+  }
+  active = { path, mode: resolvedMode, interactions: readCassette(path), used: new Set() };
+}
+
+export function ejectCassette(): void {
+  active = null;
+}
+
+function relativeUrl(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+function sameRequest(recorded: CassetteInteraction["request"], request: CassetteInteraction["request"]): boolean {
+  return (
+    recorded.method === request.method &&
+    recorded.url === request.url &&
+    // Cassettes recorded before bodies were scrubbed still match
+    redactJsonBody(recorded.body ?? "") === (request.body ?? "")
+  );
+}
+
+function replay(cassette: ActiveCassette, request: CassetteInteraction["request"]): Response {
+  const matches = cassette.interactions
+    .map((interaction, index) => ({ interaction, index }))
+    .filter(({ interaction }) => sameRequest(interaction.request, request));
+
+  // Serve matching interactions in recorded order; repeat the last one once exhausted
+  const next = matches.find(({ index }) => !cassette.used.has(index)) ?? matches[matches.length - 1];
+  if (!next) {
+    throw new CassetteMissError(request.method, request.url, cassette.path);
+  }
+  cassette.used.add(next.index);
+
+  const { status, headers, body } = next.interaction.response;
+  // Status codes like 204 must not carry a body
+  const payload = status === 204 || status === 304 ? null : Buffer.from(body, "base64");
+  return new Response(payload, { status, headers });
+}
+
+async function record(
+  cassette: ActiveCassette,
+  request: CassetteInteraction["request"],
+  response: Response
+): Promise<void> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  const body = Buffer.from(await response.clone().arrayBuffer()).toString("base64");
+
+  cassette.interactions.push({
+    request,
+    response: { status: response.status, headers: redactHeaders(headers), body },
+  });
+  writeCassette(cassette);
+}
+
+/**
+ * fetch() that records to or replays from the active cassette.
+ * Falls through to the network when no cassette is in use.
+ */
+export async function cassetteFetch(
+  url: string,
+  init: RequestInit & { headers: Record<string, string> }
+): Promise<Response> {
+  if (!active) return fetch(url, init);
+
+  const request: CassetteInteraction["request"] = {
+    method: init.method ?? "GET",
+    url: relativeUrl(url),
+    headers: redactHeaders(
+      Object.fromEntries(
+        Object.entries(init.headers).filter(([key]) => !VOLATILE_HEADERS.includes(key.toLowerCase()))
+      )
+    ),
+    ...(typeof init.body === "string" && { body: redactJsonBody(init.body) }),
+  };
+
+  if (active.mode === "replay") return replay(active, request);
+
+  const response = await fetch(url, init);
+  await record(active, request, response);
+  return response;
+}
+
+// Environment activation for CLI and server processes
+if (process.env.FINTOC_CASSETTE) {
+  const mode = process.env.FINTOC_CASSETTE_MODE;
+  if (mode !== undefined && mode !== "record" && mode !== "replay") {
+    throw new Error(`Invalid FINTOC_CASSETTE_MODE: "${mode}". Expected "record" or "replay".`);
+  }
+  useCassette(process.env.FINTOC_CASSETTE, mode);
+}
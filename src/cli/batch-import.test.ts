@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { prepareBatchImport } from "./batch-import.ts";
+import type { ParsedCommand } from "../parser.ts";
+import { ejectCassette, useCassette } from "../cassette.ts";
+
+describe("prepareBatchImport", () => {
+  const dir = mkdtempSync(join(tmpdir(), "fintoc-batch-"));
+  const file = (name: string, text: string) => {
+    const path = join(dir, name);
+    writeFileSync(path, text);
+    return path;
+  };
+  const command = (path: string, flags: Record<string, unknown> = {}): ParsedCommand => ({
+    resource: "transfer-batches",
+    action: "import",
+    id: path,
+    args: [path],
+    flags,
+  });
+  const errors = spyOn(console, "error").mockImplementation(() => {});
+
+  beforeAll(() => {
+    // banks.list for CL, replayed
+    const banks = [{ id: "cl_banco_estado", name: "BancoEstado", code: "012", country: "CL" }];
+    const body = Buffer.from(JSON.stringify(banks)).toString("base64");
+    const interaction = {
+      request: { method: "GET", url: "/internal/v1/dashboard/banks?country=CL", headers: {} },
+      response: { status: 200, headers: { "content-type": "application/json" }, body },
+    };
+    useCassette(file("banks.json", JSON.stringify({ version: 1, interactions: [interaction] })), "replay");
+  });
+  afterAll(() => {
+    ejectCassette();
+    errors.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("turns a valid CSV into a transfer-batches create command", async () => {
+    const path = file("ok.csv", "monto_clp,nombre,rut,banco,cuenta\n1.000,Ana,12.345.678-5,012,123456789\n");
+    const result = await prepareBatchImport(command(path, { map: "monto_clp=amount", mode: "test" }), "token", { dryRun: true });
+
+    expect(result.resource).toBe("transfer-batches");
+    expect(result.action).toBe("create");
+    expect(result.flags).toMatchObject({ mode: "test", currency: "CLP" });
+    expect(result.flags.rows).toEqual([
+      {
+        amount: 1000,
+        counterparty: {
+          holder_name: "Ana",
+          holder_id: "12.345.678-5",
+          institution_id: "cl_banco_estado",
+          type: "checking_account",
+          account_number: "123456789",
+        },
+      },
+    ]);
+  });
+
+  test("lists row errors with file and line, and submits nothing", async () => {
+    const path = file("bad.csv", "monto,nombre,rut,banco,cuenta\n1000,Ana,12.345.678-5,999,123456789\n");
+    await expect(prepareBatchImport(command(path), "token", { dryRun: true })).rejects.toThrow("1 row(s) with errors");
+    expect(errors).toHaveBeenCalledWith(`  ${path}:2  unknown institution "999" (see "fintoc banks list")`);
+  });
+
+  test("requires --yes and an OTP code when stdin is not a terminal", async () => {
+    const path = file("submit.csv", "monto,nombre,rut,banco,cuenta\n1000,Ana,12.345.678-5,012,123456789\n");
+    const isTTY = process.stdin.isTTY;
+    process.stdin.isTTY = false;
+    try {
+      await expect(prepareBatchImport(command(path), "token", { dryRun: false })).rejects.toThrow("Pass --yes");
+      await expect(prepareBatchImport(command(path, { yes: true }), "token", { dryRun: false })).rejects.toThrow(
+        "Missing --otp_code."
+      );
+    } finally {
+      process.stdin.isTTY = isTTY;
+    }
+
+    const result = await prepareBatchImport(command(path, { yes: true, otp_code: "123456" }), "token", { dryRun: false });
+    expect(result.flags).toMatchObject({ otp_code: "123456" });
+    expect(result.flags).not.toHaveProperty("yes");
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * fintoc transfer-batches import <file.csv>
+ *
+ * Turns a payouts CSV into a transfer-batches.create command. Every row is
+ * validated first (RUT/CLABE, amounts, institution codes from banks.list);
+ * if any row fails, the errors are listed with their CSV line numbers and
+ * nothing is submitted. Otherwise a summary is shown and, after
+ * confirmation and the OTP code, the batch is handed back to cli.ts to be
+ * dispatched like any other command (--dry-run, --idempotency-key, etc.).
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { dispatch } from "../dispatcher.ts";
+import type { ParsedCommand } from "../parser.ts";
+import { parseBatchCsv } from "../batch.ts";
+import type { Bank, BatchCurrency } from "../batch.ts";
+import { promptHidden } from "./prompt.ts";
+
+const USAGE =
+  "Usage: fintoc transfer-batches import <file.csv> [--currency CLP|MXN] [--description TEXT] [--map column=field,...] [--otp_code CODE] [--yes]";
+
+const CURRENCIES: BatchCurrency[] = ["CLP", "MXN"];
+const COUNTRY_BY_CURRENCY: Record<BatchCurrency, string> = { CLP: "CL", MXN: "MX" };
+
+/**
+ * Parse --map "monto_clp=amount,rut=holder_id" into { monto_clp: "amount", ... }.
+ */
+function parseColumnMap(value: unknown): Record<string, string> {
+  if (value === undefined) return {};
+  const map: Record<string, string> = {};
+  for (const pair of String(value).split(",")) {
+    const [column, field] = pair.split("=").map((part) => part.trim());
+    if (!column || !field) {
+      throw new Error(`Invalid --map entry "${pair}". Expected column=field, e.g. --map monto_clp=amount,rut=holder_id`);
+    }
+    map[column] = field;
+  }
+  return map;
+}
+
+/**
+ * Banks for the batch's country, or null when they could not be loaded
+ * (only tolerated for dry runs, where institution codes go unchecked).
+ */
+async function loadBanks(currency: BatchCurrency, token: string): Promise<Bank[] | null> {
+  const country = COUNTRY_BY_CURRENCY[currency];
+  const result = await dispatch({ resource: "banks", action: "list", flags: { country } }, token);
+  if (!result.success || !Array.isArray(result.data)) return null;
+
+  return (result.data as Bank[]).filter(
+    (bank) => typeof bank.id === "string" && (!bank.country || bank.country.toUpperCase() === country)
+  );
+}
+
+function formatAmount(amount: number, currency: BatchCurrency): string {
+  return `${amount.toLocaleString("en-US")} ${currency}`;
+}
+
+function confirm(message: string): boolean {
+  const answer = globalThis.prompt(`${message} [y/N]`);
+  return !!answer && /^y(es)?$/i.test(answer.trim());
+}
+
+/**
+ * Validate the CSV and build the transfer-batches.create command.
+ * Throws with a user-facing message when the file is invalid or the
+ * user declines; row errors are printed before throwing.
+ */
+export async function prepareBatchImport(
+  parsed: ParsedCommand,
+  token: string,
+  options: { dryRun: boolean }
+): Promise<ParsedCommand> {
+  const { map, yes, ...flags } = parsed.flags;
+  const path = parsed.id;
+  if (!path) throw new Error(USAGE);
+  if (!existsSync(path)) throw new Error(`File not found: ${path}`);
+
+  const currency = String(flags.currency ?? "CLP").toUpperCase() as BatchCurrency;
+  if (!CURRENCIES.includes(currency)) {
+    throw new Error(`Invalid --currency "${flags.currency}". Expected one of: ${CURRENCIES.join(", ")}`);
+  }
+
+  const banks = await loadBanks(currency, token);
+  if (!banks) {
+    if (!options.dryRun) throw new Error("Could not load banks to check institution codes. Try again later.");
+    console.error("Warning: could not load banks; institution codes were not checked.");
+  }
+
+  const { rows, errors, total } = parseBatchCsv(readFileSync(path, "utf8"), {
+    currency,
+    banks,
+    columnMap: parseColumnMap(map),
+  });
+
+  if (errors.length > 0) {
+    for (const error of errors) {
+      console.error(`  ${path}:${error.line}  ${error.message}`);
+    }
+    const failedLines = new Set(errors.map((error) => error.line)).size;
+    throw new Error(`${failedLines} row(s) with errors. Nothing was submitted.`);
+  }
+
+  const recipients = new Set(rows.map((row) => `${row.counterparty.institution_id}:${row.counterparty.account_number}`));
+  console.error(
+    `${rows.length} transfer(s) to ${recipients.size} account(s), total ${formatAmount(total, currency)}` +
+      (flags.mode ? ` (mode: ${flags.mode})` : "")
+  );
+
+  const command: ParsedCommand = {
+    resource: "transfer-batches",
+    action: "create",
+    flags: { ...flags, currency, rows },
+  };
+  if (options.dryRun) return command;
+
+  if (!yes) {
+    if (!process.stdin.isTTY) throw new Error("Pass --yes to submit the batch without a confirmation prompt.");
+    if (!confirm("Submit this batch?")) throw new Error("Cancelled. Nothing was submitted.");
+  }
+
+  if (command.flags.otp_code === undefined) {
+    if (!process.stdin.isTTY) throw new Error("Missing --otp_code.");
+    const code = (await promptHidden("OTP code: "))?.trim();
+    if (!code) throw new Error("An OTP code is required to submit the batch.");
+    command.flags.otp_code = code;
+  }
+  return command;
+}
@@ -1,5 +1,5 @@
 /**
- * CLI command handlers: login, logout, whoami.
+ * CLI command handlers: login, logout, whoami, profiles, auth doctor, routes audit, mock-server.
  */
 
 import { getAuth0Token } from "./auth0.ts";
@@ -10,9 +10,23 @@ import {
   expireSession,
   activateSession,
   getRawToken,
+  nextSessionExpiry,
 } from "./session.ts";
-import { save, load, clear } from "./store.ts";
+import { save, load, clear, authFilePath, inspectStorage, setStoreProfile, isValidProfileName } from "./store.ts";
+import { startMockServer, MOCK_SESSION_TOKEN, MOCK_SIGNED_TOKEN, DEFAULT_MOCK_OTP } from "../mock/server.ts";
+import { loadFixtures } from "../mock/fixtures.ts";
 import { config } from "./config.ts";
+import { checkRouteTable, loadEndpoints, auditRoutes, DEFAULT_AUDIT_PREFIX } from "../audit.ts";
+import {
+  loadProfiles,
+  upsertProfile,
+  setCurrentProfile,
+  removeProfile,
+  getActiveProfileName,
+  DEFAULT_PROFILE,
+  ENV_API_HOST,
+  type Profile,
+} from "./profiles.ts";
 
 export async function login(): Promise<void> {
   // Check if already logged in with a valid session
@@ -101,17 +115,31 @@ export async function login(): Promise<void> {
   // Step 5: Get raw token for X-Session-Token header (used by dispatcher)
   const rawToken = await getRawToken(signedToken);
 
-  // Step 6: Persist credentials
-  await save({
+  // Step 6: Persist credentials (and remember the profile's host/Auth0 settings)
+  const profileName = getActiveProfileName();
+  if (profileName !== DEFAULT_PROFILE) {
+    await upsertProfile(profileName, {
+      apiHost: config.api.host,
+      auth0Domain: config.auth0.domain,
+      auth0ClientId: config.auth0.clientId,
+      auth0Connection: config.auth0.connection,
+    });
+  }
+  const backend = await save({
     signedToken,
     rawToken: rawToken ?? "",
     email,
     apiHost: config.api.host,
     createdAt: new Date().toISOString(),
+    expiresAt: nextSessionExpiry(),
   });
 
-  console.log(`\nLogged in as ${email}`);
-  console.log("Credentials saved to ~/.config/fintoc/auth.json");
+  console.log(`\nLogged in as ${email} (profile: ${profileName})`);
+  console.log(
+    backend === "keychain"
+      ? "Credentials saved to the OS keychain"
+      : `Credentials saved (encrypted) to ${authFilePath()}`,
+  );
 }
 
 export async function logout(): Promise<void> {
@@ -144,8 +172,284 @@ export async function whoami(): Promise<void> {
     () => ({ active: false }),
   );
 
+  console.log(`Profile: ${getActiveProfileName()}`);
   console.log(`Email:   ${auth.email}`);
   console.log(`API:     ${auth.apiHost}`);
   console.log(`Session: ${validation.active ? "active" : "expired"}`);
   console.log(`Since:   ${auth.createdAt}`);
+  if (auth.expiresAt) {
+    const minutes = Math.round((Date.parse(auth.expiresAt) - Date.now()) / 60000);
+    const relative = minutes > 0 ? `in ${minutes} min` : "lapsed; extended on next command";
+    console.log(`Expires: ${auth.expiresAt} (${relative})`);
+  }
+}
+
+// ── Profiles ──────────────────────────────────────────────────────────────────
+
+const PROFILE_SETTINGS: Record<string, keyof Profile> = {
+  api_host: "apiHost",
+  auth0_domain: "auth0Domain",
+  auth0_client_id: "auth0ClientId",
+  auth0_connection: "auth0Connection",
+  mode: "mode",
+  organization_id: "organizationId",
+};
+
+/**
+ * fintoc profiles list|use|add|remove
+ */
+export async function profiles(args: string[]): Promise<void> {
+  const [subcommand, name, ...rest] = args;
+  if (name !== undefined && !isValidProfileName(name)) {
+    console.error(`Invalid profile name "${name}": use only letters, digits, "-" and "_".`);
+    process.exit(1);
+  }
+
+  switch (subcommand) {
+    case undefined:
+    case "list": {
+      const data = await loadProfiles();
+      const names = [...new Set([DEFAULT_PROFILE, ...Object.keys(data.profiles)])];
+      for (const profileName of names) {
+        const profile = data.profiles[profileName] ?? {};
+        const marker = profileName === data.current ? "*" : " ";
+        const details = [
+          profile.apiHost ?? ENV_API_HOST,
+          profile.mode && `mode=${profile.mode}`,
+          profile.organizationId && `org=${profile.organizationId}`,
+        ].filter(Boolean);
+        console.log(`${marker} ${profileName.padEnd(16)} ${details.join("  ")}`);
+      }
+      return;
+    }
+
+    case "use": {
+      if (!name) {
+        console.error("Usage: fintoc profiles use <name>");
+        process.exit(1);
+      }
+      const data = await loadProfiles();
+      if (name !== DEFAULT_PROFILE && !data.profiles[name]) {
+        console.error(`Unknown profile: "${name}". Run "fintoc profiles list".`);
+        process.exit(1);
+      }
+      await setCurrentProfile(name);
+      console.log(`Now using profile "${name}"`);
+      return;
+    }
+
+    case "add": {
+      if (!name) {
+        console.error(
+          "Usage: fintoc profiles add <name> [--api_host URL] [--auth0_domain D] [--auth0_client_id ID] [--auth0_connection C] [--mode live|test] [--organization_id ID]",
+        );
+        process.exit(1);
+      }
+      const settings: Profile = {};
+      for (let i = 0; i < rest.length; i += 2) {
+        const key = rest[i]?.replace(/^--/, "") ?? "";
+        const value = rest[i + 1];
+        const field = PROFILE_SETTINGS[key];
+        if (!field || value === undefined) {
+          console.error(`Unknown or incomplete setting: ${rest[i]}`);
+          process.exit(1);
+        }
+        if (field === "mode" && value !== "live" && value !== "test") {
+          console.error('--mode must be "live" or "test"');
+          process.exit(1);
+        }
+        (settings as Record<string, string>)[field] = value;
+      }
+      await upsertProfile(name, settings);
+      console.log(`Saved profile "${name}"`);
+      return;
+    }
+
+    case "remove": {
+      if (!name) {
+        console.error("Usage: fintoc profiles remove <name>");
+        process.exit(1);
+      }
+      if (!(await removeProfile(name))) {
+        console.error(`Unknown profile: "${name}"`);
+        process.exit(1);
+      }
+      console.log(`Removed profile "${name}"`);
+      return;
+    }
+
+    default:
+      console.error("Usage: fintoc profiles list|use|add|remove");
+      process.exit(1);
+  }
+}
+
+// ── Auth ──────────────────────────────────────────────────────────────────────
+
+/**
+ * fintoc auth doctor [--fix] | fintoc auth token
+ */
+export async function auth(args: string[]): Promise<void> {
+  const [subcommand, ...rest] = args;
+
+  if (subcommand === "token") {
+    // For snippets: export FINTOC_SESSION_TOKEN=$(fintoc auth token)
+    const data = await load();
+    if (!data?.rawToken) {
+      console.error('Not logged in. Run "fintoc login".');
+      process.exit(1);
+    }
+    console.log(data.rawToken);
+    return;
+  }
+
+  if (subcommand !== "doctor") {
+    console.error("Usage: fintoc auth doctor [--fix] | fintoc auth token");
+    process.exit(1);
+  }
+
+  const fix = rest.includes("--fix");
+  const findings = await inspectStorage(fix);
+  for (const finding of findings) {
+    console.log(`${finding.level === "ok" ? "  ok  " : "  WARN"}  ${finding.message}`);
+  }
+
+  if (findings.some((f) => f.level === "warn")) {
+    if (!fix) {
+      console.log('\nRun "fintoc auth doctor --fix" to tighten permissions and encrypt plaintext files.');
+    }
+    process.exit(1);
+  }
+}
+
+// ── Routes audit ──────────────────────────────────────────────────────────────
+
+const ROUTES_USAGE = "Usage: fintoc routes audit [openapi.json|openapi.yaml|routes.txt] [--prefix /internal/]";
+
+/**
+ * fintoc routes audit [file] [--prefix /internal/]
+ *
+ * Always checks routes.ts for malformed keys and duplicate endpoints. With
+ * a file (an OpenAPI document or `bin/rails routes` output), also lists
+ * endpoints missing from routes.ts, routes the API does not have, and
+ * method mismatches. Exits 1 when anything is reported.
+ */
+export async function routesCommand(args: string[]): Promise<void> {
+  const [subcommand, ...rest] = args;
+  let file: string | undefined;
+  let prefix = DEFAULT_AUDIT_PREFIX;
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]!;
+    if (arg === "--prefix" && rest[i + 1] !== undefined) {
+      prefix = rest[++i]!;
+    } else if (!arg.startsWith("--") && file === undefined) {
+      file = arg;
+    } else {
+      console.error(ROUTES_USAGE);
+      process.exit(1);
+    }
+  }
+  if (subcommand !== "audit") {
+    console.error(ROUTES_USAGE);
+    process.exit(1);
+  }
+
+  let failed = false;
+  const problems = checkRouteTable();
+  if (problems.length === 0) {
+    console.log("  ok    Route table: keys are well-formed, no duplicate endpoints");
+  }
+  for (const problem of problems) {
+    console.log(`  FAIL  ${problem.key}: ${problem.message}`);
+    failed = true;
+  }
+
+  if (file) {
+    let text;
+    try {
+      text = await Bun.file(file).text();
+    } catch (err) {
+      console.error(`Could not read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+    let endpoints;
+    try {
+      endpoints = loadEndpoints(text, file);
+    } catch (err) {
+      console.error(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+
+    const report = auditRoutes(endpoints, { prefix });
+    console.log(`\n  Compared ${report.compared} endpoint(s) under ${prefix} from ${file}\n`);
+    for (const { method, path } of report.missing) {
+      console.log(`  missing   ${method.padEnd(6)} ${path}`);
+    }
+    for (const { key, method, path } of report.extra) {
+      console.log(`  extra     ${method.padEnd(6)} ${path}  (${key})`);
+    }
+    for (const { path, routes: local, source } of report.mismatched) {
+      const ours = local.map((r) => `${r.method} (${r.key})`).join(", ");
+      console.log(`  method    ${path}  routes.ts: ${ours}; API: ${source.join(", ")}`);
+    }
+
+    const total = report.missing.length + report.extra.length + report.mismatched.length;
+    console.log(total === 0 ? "  ok    routes.ts matches the API" : `\n  ${total} difference(s)`);
+    if (total > 0) failed = true;
+  }
+
+  if (failed) process.exit(1);
+}
+
+// ── Mock server ───────────────────────────────────────────────────────────────
+
+const MOCK_PROFILE = "mock";
+
+/**
+ * fintoc mock-server [--port N] [--seed fixtures.json] [--otp CODE]
+ *
+ * Also logs the "mock" profile in against the server, so
+ * "fintoc --profile mock ..." works without Auth0.
+ */
+export async function mockServer(args: string[]): Promise<never> {
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i += 2) {
+    const key = args[i]?.replace(/^--/, "") ?? "";
+    const value = args[i + 1];
+    if (!["port", "seed", "otp"].includes(key) || value === undefined) {
+      console.error("Usage: fintoc mock-server [--port N] [--seed fixtures.json] [--otp CODE]");
+      process.exit(1);
+    }
+    options[key] = value;
+  }
+
+  const port = Number(options.port ?? 4010);
+  let fixtures;
+  try {
+    fixtures = loadFixtures(options.seed);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : "Could not load fixtures");
+    process.exit(1);
+  }
+
+  const server = startMockServer({ port, fixtures, otpCode: options.otp });
+  const apiHost = `http://localhost:${server.port}`;
+
+  await upsertProfile(MOCK_PROFILE, { apiHost, mode: "test" });
+  setStoreProfile(MOCK_PROFILE);
+  await save({
+    signedToken: MOCK_SIGNED_TOKEN,
+    rawToken: MOCK_SESSION_TOKEN,
+    email: "dev@example.com",
+    apiHost,
+    createdAt: new Date().toISOString(),
+  });
+
+  console.log(`Mock Fintoc API listening on ${apiHost}`);
+  console.log(`  CLI:    fintoc --profile ${MOCK_PROFILE} transfers list`);
+  console.log(`  Server: API_HOST=${apiHost} bun index.ts   (Bearer ${MOCK_SESSION_TOKEN})`);
+  console.log(`  OTP:    ${options.otp ?? DEFAULT_MOCK_OTP}`);
+
+  // Serve until interrupted
+  return new Promise<never>(() => {});
 }
@@ -0,0 +1,198 @@
+/**
+ * Shell completion scripts generated from the route table.
+ *
+ *   fintoc completion bash > /etc/bash_completion.d/fintoc
+ *   fintoc completion zsh  > "${fpath[1]}/_fintoc"
+ *   fintoc completion fish > ~/.config/fish/completions/fintoc.fish
+ *
+ * Completes resources, actions, flag names and enum flag values.
+ */
+
+import { routes, getGroupedCommands } from "../routes.ts";
+import { CONTROL_FLAG_NAMES } from "../dispatcher.ts";
+import { OUTPUT_FORMATS } from "../format.ts";
+import { PARSER_FLAG_NAMES } from "../parser.ts";
+
+export const COMPLETION_SHELLS = ["bash", "zsh", "fish"] as const;
+export type CompletionShell = (typeof COMPLETION_SHELLS)[number];
+
+/** Top-level commands handled by cli.ts rather than the route table. */
+const CLI_COMMANDS = ["login", "logout", "whoami", "shell", "completion", "profiles", "auth", "routes", "mock-server", "spec", "help"];
+
+interface CompletionData {
+  resources: string[];
+  actions: Record<string, string[]>;
+  /** Flag names (without "--") keyed by "resource.action". */
+  flags: Record<string, string[]>;
+  /** Enum values keyed by flag name. */
+  values: Record<string, string[]>;
+}
+
+function collect(): CompletionData {
+  const grouped = getGroupedCommands();
+  const actions: Record<string, string[]> = {};
+  for (const [resource, list] of Object.entries(grouped)) {
+    actions[resource] = [...list.map((a) => a.action), "help"];
+  }
+  actions.completion = [...COMPLETION_SHELLS];
+  actions.profiles = ["list", "use", "add", "remove"];
+  actions.auth = ["doctor", "token"];
+  actions.routes = ["audit"];
+  actions["transfer-batches"]?.splice(-1, 0, "import");
+
+  const flags: Record<string, string[]> = {};
+  const values: Record<string, string[]> = {};
+  for (const [key, route] of Object.entries(routes)) {
+    flags[key] = [...(route.flags ?? []).map((f) => f.name), ...CONTROL_FLAG_NAMES, ...PARSER_FLAG_NAMES];
+    for (const def of route.flags ?? []) {
+      if (def.enum) values[def.name] = [...def.enum];
+    }
+  }
+  flags["transfer-batches.import"] = ["currency", "description", "map", "otp_code", "mode", "yes", ...CONTROL_FLAG_NAMES];
+  values.output = [...OUTPUT_FORMATS];
+
+  return { resources: [...Object.keys(grouped), ...CLI_COMMANDS], actions, flags, values };
+}
+
+function renderBash(data: CompletionData): string {
+  const actionCases = Object.entries(data.actions)
+    .map(([resource, list]) => `      ${resource}) words="${list.join(" ")}" ;;`)
+    .join("\n");
+  const flagCases = Object.entries(data.flags)
+    .map(([key, list]) => `      ${key}) words="${list.map((f) => `--${f}`).join(" ")}" ;;`)
+    .join("\n");
+  const valueCases = Object.entries(data.values)
+    .map(([flag, list]) => `    --${flag}) COMPREPLY=($(compgen -W "${list.join(" ")}" -- "$cur")); return ;;`)
+    .join("\n");
+
+  return `# fintoc bash completion (generated by "fintoc completion bash")
+_fintoc() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}"
+  local prev="\${COMP_WORDS[COMP_CWORD-1]}"
+  local resource="\${COMP_WORDS[1]}"
+  local action="\${COMP_WORDS[2]}"
+  local words=""
+
+  case "$prev" in
+${valueCases}
+  esac
+
+  if [[ $COMP_CWORD -eq 1 ]]; then
+    words="${data.resources.join(" ")}"
+  elif [[ $COMP_CWORD -eq 2 ]]; then
+    case "$resource" in
+${actionCases}
+    esac
+  elif [[ "$cur" == --* ]]; then
+    case "$resource.$action" in
+${flagCases}
+    esac
+  fi
+
+  COMPREPLY=($(compgen -W "$words" -- "$cur"))
+}
+complete -F _fintoc fintoc
+`;
+}
+
+function renderZsh(data: CompletionData): string {
+  const actionCases = Object.entries(data.actions)
+    .map(([resource, list]) => `        ${resource}) candidates=(${list.join(" ")}) ;;`)
+    .join("\n");
+  const flagCases = Object.entries(data.flags)
+    .map(([key, list]) => `        ${key}) candidates=(${list.map((f) => `--${f}`).join(" ")}) ;;`)
+    .join("\n");
+  const valueCases = Object.entries(data.values)
+    .map(([flag, list]) => `    --${flag}) compadd -- ${list.join(" ")}; return ;;`)
+    .join("\n");
+
+  return `#compdef fintoc
+# fintoc zsh completion (generated by "fintoc completion zsh")
+_fintoc() {
+  local -a candidates
+  local resource="\${words[2]}"
+  local action="\${words[3]}"
+
+  case "\${words[CURRENT-1]}" in
+${valueCases}
+  esac
+
+  if (( CURRENT == 2 )); then
+    candidates=(${data.resources.join(" ")})
+  elif (( CURRENT == 3 )); then
+    case "$resource" in
+${actionCases}
+    esac
+  elif [[ "\${words[CURRENT]}" == --* ]]; then
+    case "$resource.$action" in
+${flagCases}
+    esac
+  fi
+
+  compadd -- $candidates
+}
+
+if [[ "\${funcstack[1]}" == "_fintoc" ]]; then
+  _fintoc "$@"
+else
+  compdef _fintoc fintoc
+fi
+`;
+}
+
+function renderFish(data: CompletionData): string {
+  const lines = [
+    `# fintoc fish completion (generated by "fintoc completion fish")`,
+    `function __fintoc_args`,
+    `    commandline -opc | string match -v -- '-*'`,
+    `end`,
+    `function __fintoc_needs_resource`,
+    `    test (count (__fintoc_args)) -eq 1`,
+    `end`,
+    `function __fintoc_needs_action`,
+    `    set -l args (__fintoc_args)`,
+    `    test (count $args) -eq 2; and test "$args[2]" = "$argv[1]"`,
+    `end`,
+    `function __fintoc_command`,
+    `    set -l args (__fintoc_args)`,
+    `    test (count $args) -ge 3; and test "$args[2]" = "$argv[1]"; and test "$args[3]" = "$argv[2]"`,
+    `end`,
+    ``,
+    `complete -c fintoc -f`,
+    `complete -c fintoc -n __fintoc_needs_resource -a "${data.resources.join(" ")}"`,
+  ];
+
+  for (const [resource, list] of Object.entries(data.actions)) {
+    lines.push(`complete -c fintoc -n "__fintoc_needs_action ${resource}" -a "${list.join(" ")}"`);
+  }
+
+  for (const [key, list] of Object.entries(data.flags)) {
+    const [resource, action] = key.split(".");
+    for (const flag of list) {
+      const values = data.values[flag];
+      const valueArgs = values ? ` -x -a "${values.join(" ")}"` : "";
+      lines.push(`complete -c fintoc -n "__fintoc_command ${resource} ${action}" -l ${flag}${valueArgs}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+export function isCompletionShell(value: unknown): value is CompletionShell {
+  return typeof value === "string" && (COMPLETION_SHELLS as readonly string[]).includes(value);
+}
+
+/**
+ * Render the completion script for a shell.
+ */
+export function renderCompletionScript(shell: CompletionShell): string {
+  const data = collect();
+  switch (shell) {
+    case "bash":
+      return renderBash(data);
+    case "zsh":
+      return renderZsh(data);
+    case "fish":
+      return renderFish(data);
+  }
+}
@@ -39,6 +39,7 @@ const auth0Domain = process.env.AUTH0_DOMAIN ?? "auth.fintoc.com";
 const resolvedAuth0Domain =
   auth0Domain === "fintoc.us.auth0.com" ? "auth.fintoc.com" : auth0Domain;
 
+// Mutable so a named profile can override these (see profiles.ts)
 export const config = {
   auth0: {
     domain: resolvedAuth0Domain,
@@ -47,5 +48,9 @@ export const config = {
   },
   api: {
     host: process.env.API_HOST ?? "http://api.localhost:3000",
+    /** Per-attempt request timeout */
+    timeoutMs: Number(process.env.API_TIMEOUT_MS ?? 30_000),
+    /** Retries after the first attempt (see client.ts for what is retried) */
+    maxRetries: Number(process.env.API_MAX_RETRIES ?? 2),
   },
-} as const;
+};
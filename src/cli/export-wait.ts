@@ -0,0 +1,108 @@
+/**
+ * --wait for export routes: poll the created export until it is ready,
+ * showing progress on stderr, then save it to --out (or print the
+ * finished export record when --out is not given).
+ */
+
+import type { DispatchResult } from "../dispatcher.ts";
+import type { RouteDefinition } from "../routes.ts";
+import { waitForExport, downloadExport, isExportRecord } from "../exports.ts";
+import type { ExportRecord } from "../exports.ts";
+import { saveFile } from "../download.ts";
+import { formatOutput } from "../format.ts";
+
+export interface ExportWaitOptions {
+  timeoutMs: number;
+  /** --out value, if given */
+  out?: string | true;
+  /** Flags forwarded to each poll (mode, current_organization_id) */
+  flags: Record<string, unknown>;
+}
+
+/**
+ * Progress line: rewritten in place on a terminal, one line per status
+ * change otherwise.
+ */
+function progressReporter(id: string): { update: (record: ExportRecord, elapsedMs: number) => void; done: () => void } {
+  const tty = process.stderr.isTTY;
+  let lastStatus: string | undefined;
+  let written = false;
+
+  return {
+    update(record, elapsedMs) {
+      const status = String(record.status ?? "pending");
+      const line = `Waiting for export ${id}: ${status} (${Math.round(elapsedMs / 1000)}s)`;
+      if (tty) {
+        process.stderr.write(`\r\x1b[2K${line}`);
+        written = true;
+      } else if (status !== lastStatus) {
+        console.error(line);
+      }
+      lastStatus = status;
+    },
+    done() {
+      if (written) process.stderr.write("\n");
+    },
+  };
+}
+
+/**
+ * Returns true when the export finished (and was saved, with --out).
+ */
+export async function waitForExportCommand(
+  result: DispatchResult,
+  route: RouteDefinition,
+  token: string,
+  options: ExportWaitOptions
+): Promise<boolean> {
+  if (!route.pollRoute || !isExportRecord(result.data)) {
+    console.error("The export was created, but the response has no export id to wait for.");
+    console.log(result.text);
+    return false;
+  }
+
+  const id = result.data.id;
+  const progress = progressReporter(id);
+  let outcome;
+  try {
+    outcome = await waitForExport(route.pollRoute, id, token, {
+      flags: options.flags,
+      timeoutMs: options.timeoutMs,
+      onPoll: progress.update,
+    });
+  } catch (error) {
+    progress.done();
+    console.error(error instanceof Error ? error.message : String(error));
+    return false;
+  }
+  progress.done();
+
+  const [resource, action] = route.pollRoute.split(".");
+  if (outcome.timedOut) {
+    console.error(
+      `Export ${id} is still ${outcome.record.status ?? "pending"} after ${Math.round(options.timeoutMs / 1000)}s. ` +
+        `Check it later with "fintoc ${resource} ${action} ${id}".`
+    );
+    return false;
+  }
+  if (outcome.state === "failed") {
+    console.error(`Export ${id} ${outcome.record.status ?? "failed"}.`);
+    console.error(formatOutput(outcome.record));
+    return false;
+  }
+
+  if (options.out === undefined) {
+    console.log(formatOutput(outcome.record));
+    return true;
+  }
+
+  try {
+    const file = await downloadExport(outcome.record, token);
+    const saved = await saveFile(file.bytes, options.out, file.headers, `export-${id}`);
+    console.error(`Saved ${saved.path} (${saved.bytes} bytes)`);
+    return true;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return false;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Session expiry tracking for dispatched commands.
+ *
+ * Before each command the stored expiry (AuthData.expiresAt) is checked.
+ * Sessions close to lapsing are extended via sessions/extend and the new
+ * expiry is saved. A session that cannot be extended, or a 401 from the
+ * API, means the user has to log in again; on a terminal we offer to run
+ * the login flow inline.
+ */
+
+import type { DispatchResult } from "../dispatcher.ts";
+import { extendSession } from "./session.ts";
+import { load, save } from "./store.ts";
+import { login } from "./commands.ts";
+import { getActiveProfileName, DEFAULT_PROFILE } from "./profiles.ts";
+
+/** Extend sessions that expire within this window. */
+const EXTEND_WINDOW_MS = 5 * 60 * 1000;
+
+export type SessionState = "active" | "expired";
+
+/**
+ * Extend the stored session if it is about to lapse.
+ * Sessions saved without an expiry are assumed active.
+ */
+export async function keepSessionAlive(): Promise<SessionState> {
+  const auth = await load();
+  if (!auth) return "expired";
+  if (!auth.expiresAt) return "active";
+  if (Date.parse(auth.expiresAt) - Date.now() > EXTEND_WINDOW_MS) return "active";
+
+  const expiresAt = await extendSession(auth.signedToken).catch(() => null);
+  if (!expiresAt) return "expired";
+
+  await save({ ...auth, expiresAt });
+  return "active";
+}
+
+export function isSessionExpired(result: DispatchResult): boolean {
+  return result.status === 401;
+}
+
+export function reloginMessage(): string {
+  const profile = getActiveProfileName();
+  const command = profile === DEFAULT_PROFILE ? "fintoc login" : `fintoc login --profile ${profile}`;
+  return `Session expired (profile: ${profile}). Re-login required: run "${command}".`;
+}
+
+/**
+ * Offer to log in again when attached to a terminal.
+ * Returns the new session token, or null if the user declined or
+ * stdin is not interactive.
+ */
+export async function promptRelogin(): Promise<string | null> {
+  if (!process.stdin.isTTY) return null;
+
+  const answer = globalThis.prompt(`${reloginMessage()}\nLog in again now? [y/N]`);
+  if (!answer || !/^y(es)?$/i.test(answer.trim())) return null;
+
+  await login();
+  return (await load())?.rawToken || null;
+}
@@ -0,0 +1,125 @@
+/**
+ * Named profiles persisted in ~/.config/fintoc/profiles.json.
+ *
+ * Each profile carries its own API host, Auth0 settings, default mode
+ * and default organization id, plus its own credentials file (see store.ts).
+ * The "default" profile falls back to the .env / environment config.
+ *
+ * Selection order: --profile flag > FINTOC_PROFILE env > "current" in profiles.json > "default".
+ * Names are limited to letters, digits, "-" and "_" since they name files.
+ */
+
+import { join } from "node:path";
+import { config } from "./config.ts";
+import { CONFIG_DIR, ensureDir, setStoreProfile, clear, assertProfileName } from "./store.ts";
+import { writePrivateFile } from "./secrets.ts";
+
+const PROFILES_FILE = join(CONFIG_DIR, "profiles.json");
+
+export const DEFAULT_PROFILE = "default";
+
+export interface Profile {
+  apiHost?: string;
+  auth0Domain?: string;
+  auth0ClientId?: string;
+  auth0Connection?: string;
+  mode?: "live" | "test";
+  organizationId?: string;
+}
+
+interface ProfilesFile {
+  current: string;
+  profiles: Record<string, Profile>;
+}
+
+let activeProfile = DEFAULT_PROFILE;
+
+/** Environment/.env API host, before any profile override. */
+export const ENV_API_HOST = config.api.host;
+
+export async function loadProfiles(): Promise<ProfilesFile> {
+  const file = Bun.file(PROFILES_FILE);
+  if (!(await file.exists())) {
+    return { current: DEFAULT_PROFILE, profiles: {} };
+  }
+  try {
+    const data = (await file.json()) as Partial<ProfilesFile>;
+    return {
+      current: data.current ?? DEFAULT_PROFILE,
+      profiles: data.profiles ?? {},
+    };
+  } catch {
+    return { current: DEFAULT_PROFILE, profiles: {} };
+  }
+}
+
+export async function saveProfiles(data: ProfilesFile): Promise<void> {
+  ensureDir();
+  writePrivateFile(PROFILES_FILE, JSON.stringify(data, null, 2));
+}
+
+/**
+ * Resolve which profile to use for this invocation. Throws for an invalid name.
+ */
+export async function resolveProfileName(explicit?: string): Promise<string> {
+  const name = explicit || process.env.FINTOC_PROFILE || (await loadProfiles()).current;
+  assertProfileName(name);
+  return name;
+}
+
+/**
+ * Make a profile active for this process: points the credential store
+ * at its auth file and overrides config with its settings.
+ */
+export async function activateProfile(name: string): Promise<Profile> {
+  const { profiles } = await loadProfiles();
+  const profile = profiles[name] ?? {};
+
+  activeProfile = name;
+  setStoreProfile(name);
+
+  if (profile.apiHost) config.api.host = profile.apiHost;
+  if (profile.auth0Domain) config.auth0.domain = profile.auth0Domain;
+  if (profile.auth0ClientId) config.auth0.clientId = profile.auth0ClientId;
+  if (profile.auth0Connection) config.auth0.connection = profile.auth0Connection;
+
+  return profile;
+}
+
+export function getActiveProfileName(): string {
+  return activeProfile;
+}
+
+/**
+ * Create or update a profile, merging the given settings.
+ */
+export async function upsertProfile(name: string, settings: Profile): Promise<Profile> {
+  assertProfileName(name);
+  const data = await loadProfiles();
+  const merged = { ...data.profiles[name], ...settings };
+  data.profiles[name] = merged;
+  await saveProfiles(data);
+  return merged;
+}
+
+export async function setCurrentProfile(name: string): Promise<void> {
+  assertProfileName(name);
+  const data = await loadProfiles();
+  data.current = name;
+  await saveProfiles(data);
+}
+
+/**
+ * Remove a profile and its stored credentials. Returns false if it did not exist.
+ * Switching away from a removed current profile falls back to "default".
+ */
+export async function removeProfile(name: string): Promise<boolean> {
+  const data = await loadProfiles();
+  if (!data.profiles[name]) return false;
+  delete data.profiles[name];
+  if (data.current === name) data.current = DEFAULT_PROFILE;
+  await saveProfiles(data);
+
+  clear(name);
+  return true;
+}
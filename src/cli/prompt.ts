@@ -0,0 +1,44 @@
+/**
+ * Terminal prompts for secrets (OTP codes): the answer is not echoed.
+ *
+ * globalThis.prompt() echoes what is typed, so it is only used for
+ * non-secret answers. Do not call promptHidden() while a readline
+ * interface is reading stdin (the shell): both would receive the keys.
+ */
+
+/**
+ * Read one line from the terminal without echoing it. Resolves to null
+ * on Ctrl-C / Ctrl-D, or when stdin is not a terminal.
+ */
+export function promptHidden(message: string): Promise<string | null> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) return Promise.resolve(null);
+
+  process.stdout.write(message);
+  stdin.setRawMode(true);
+  stdin.setEncoding("utf8");
+  stdin.resume();
+
+  return new Promise((resolve) => {
+    let value = "";
+    const finish = (result: string | null) => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write("\n");
+      resolve(result);
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n") return finish(value);
+        if (char === "\u0003" || char === "\u0004") return finish(null);
+        if (char === "\u007f" || char === "\b") {
+          value = value.slice(0, -1);
+        } else {
+          value += char;
+        }
+      }
+    };
+    stdin.on("data", onData);
+  });
+}
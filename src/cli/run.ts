@@ -0,0 +1,114 @@
+/**
+ * Running one parsed command, shared by `fintoc <resource> <action>` and
+ * `fintoc shell`: dispatch, log in again when the server rejects the
+ * session, then print the result, wait for exports (--wait) or save
+ * file responses (--out).
+ */
+
+import type { ParsedCommand } from "../parser.ts";
+import { dispatch } from "../dispatcher.ts";
+import { routes, routeKey } from "../routes.ts";
+import { outFlag, saveDownload, describeFile } from "../download.ts";
+import { exportTimeoutMs } from "../exports.ts";
+import { waitForExportCommand } from "./export-wait.ts";
+import { isSessionExpired, reloginMessage } from "./keepalive.ts";
+
+export interface RunCommandOptions {
+  /** Ask for a fresh session token; resolves to null when the user declines */
+  relogin: () => Promise<string | null>;
+  /** Write file responses without --out to stdout as raw bytes (the CLI when piped) */
+  pipeFiles?: boolean;
+}
+
+export interface RunCommandOutcome {
+  success: boolean;
+  /** Token to use from now on; differs from the one passed in after a re-login */
+  token: string;
+}
+
+export async function runParsedCommand(
+  parsed: ParsedCommand,
+  token: string,
+  options: RunCommandOptions
+): Promise<RunCommandOutcome> {
+  const route = routes[routeKey(parsed.resource, parsed.action)];
+
+  // --wait on export routes: validated before the export is created
+  let waitMs: number | undefined;
+  try {
+    if (parsed.flags.wait !== undefined && route?.pollRoute) waitMs = exportTimeoutMs(parsed.flags.wait);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return { success: false, token };
+  }
+  const out = outFlag(parsed.flags);
+
+  let result = await dispatch(parsed, token);
+
+  // The server can still reject a session we believed active
+  if (isSessionExpired(result)) {
+    const freshToken = await options.relogin();
+    if (!freshToken) {
+      console.error(reloginMessage());
+      return { success: false, token };
+    }
+    token = freshToken;
+    // Same key as the rejected attempt, so the retry cannot submit twice
+    if (result.idempotencyKey && parsed.flags["idempotency-key"] === undefined) {
+      parsed.flags["idempotency-key"] = result.idempotencyKey;
+    }
+    result = await dispatch(parsed, token);
+  }
+
+  for (const warning of result.warnings ?? []) {
+    console.error(`Warning: ${warning}`);
+  }
+
+  // With --all, attempts are summed across pages
+  const retries = (result.attempts ?? 0) - (result.pages ?? 1);
+  if (retries > 0) {
+    console.error(`Note: ${retries} request(s) were retried.`);
+  }
+
+  if (result.success && waitMs !== undefined && route && !result.dryRun) {
+    const finished = await waitForExportCommand(result, route, token, {
+      timeoutMs: waitMs,
+      out,
+      flags: { mode: parsed.flags.mode, current_organization_id: parsed.flags.current_organization_id },
+    });
+    return { success: finished, token };
+  }
+
+  if (result.success && result.binary) {
+    const headers = result.headers ?? {};
+    if (out !== undefined) {
+      const fallbackName = [parsed.resource, parsed.id].filter(Boolean).join("-");
+      try {
+        const saved = await saveDownload(result.data, out, headers, fallbackName);
+        console.error(`Saved ${saved.path} (${saved.bytes} bytes)`);
+      } catch (error) {
+        console.error(`Could not save file: ${error instanceof Error ? error.message : String(error)}`);
+        return { success: false, token };
+      }
+    } else if (options.pipeFiles) {
+      process.stdout.write(Buffer.from(String(result.data), "base64"));
+    } else {
+      console.error(`File response (${describeFile(result.data, headers)}). Use --out <path> to save it.`);
+    }
+    return { success: true, token };
+  }
+
+  if (result.success) {
+    console.log(result.text);
+    if (result.truncated) {
+      console.error(`Stopped after ${result.pages} pages (--max-pages). Results may be incomplete.`);
+    }
+    return { success: true, token };
+  }
+
+  console.error(result.text || result.error);
+  if (result.idempotencyKey) {
+    console.error(`To retry without a duplicate submit, re-run with --idempotency-key ${result.idempotencyKey}`);
+  }
+  return { success: false, token };
+}
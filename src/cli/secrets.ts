@@ -0,0 +1,173 @@
+/**
+ * Credential encryption and OS keychain backends for store.ts.
+ *
+ * Backends, in order of preference:
+ * - keychain: `secret-tool` (libsecret, Linux) or `security` (macOS Keychain)
+ * - file: AES-256-GCM envelope on disk. The key is derived from
+ *   FINTOC_PASSPHRASE via scrypt when set, otherwise read from a random
+ *   key file (~/.config/fintoc/.key, mode 0600).
+ *
+ * FINTOC_CREDENTIAL_STORE=file forces the file backend.
+ */
+
+import { join } from "node:path";
+import { randomBytes, scryptSync, createCipheriv, createDecipheriv } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync, chmodSync } from "node:fs";
+
+const SERVICE = "fintoc-cli";
+
+export type CredentialBackend = "keychain" | "file";
+
+export interface EncryptedEnvelope {
+  version: 1;
+  /** How the key was obtained: "passphrase" (scrypt) or "keyfile" */
+  kdf: "passphrase" | "keyfile";
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// ── File permissions ──────────────────────────────────────────────────────────
+
+/**
+ * Write a file readable only by the current user (0600), fixing the mode
+ * of pre-existing files too.
+ */
+export function writePrivateFile(path: string, contents: string): void {
+  writeFileSync(path, contents, { mode: 0o600 });
+  chmodSync(path, 0o600);
+}
+
+// ── Encryption ────────────────────────────────────────────────────────────────
+
+function keyFilePath(configDir: string): string {
+  return join(configDir, ".key");
+}
+
+function loadOrCreateKeyFile(configDir: string): Buffer {
+  const path = keyFilePath(configDir);
+  if (existsSync(path)) {
+    return Buffer.from(readFileSync(path, "utf8").trim(), "base64");
+  }
+  const key = randomBytes(32);
+  writePrivateFile(path, key.toString("base64"));
+  return key;
+}
+
+function deriveKey(configDir: string, kdf: EncryptedEnvelope["kdf"], salt: Buffer): Buffer {
+  if (kdf === "passphrase") {
+    const passphrase = process.env.FINTOC_PASSPHRASE;
+    if (!passphrase) {
+      throw new Error("Credentials are passphrase-protected. Set FINTOC_PASSPHRASE to unlock them.");
+    }
+    return scryptSync(passphrase, salt, 32);
+  }
+  return loadOrCreateKeyFile(configDir);
+}
+
+export function encrypt(configDir: string, plaintext: string): EncryptedEnvelope {
+  const kdf = process.env.FINTOC_PASSPHRASE ? "passphrase" : "keyfile";
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = deriveKey(configDir, kdf, salt);
+
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return {
+    version: 1,
+    kdf,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+export function decrypt(configDir: string, envelope: EncryptedEnvelope): string {
+  const key = deriveKey(configDir, envelope.kdf, Buffer.from(envelope.salt, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(envelope.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(envelope.data, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { version?: unknown }).version === 1 &&
+    typeof (value as { data?: unknown }).data === "string"
+  );
+}
+
+// ── OS keychain ───────────────────────────────────────────────────────────────
+
+function keychainTool(): "secret-tool" | "security" | null {
+  if (process.env.FINTOC_CREDENTIAL_STORE === "file") return null;
+  if (process.platform === "darwin" && Bun.which("security")) return "security";
+  if (process.platform === "linux" && Bun.which("secret-tool")) return "secret-tool";
+  return null;
+}
+
+export function preferredBackend(): CredentialBackend {
+  return keychainTool() ? "keychain" : "file";
+}
+
+export function keychainSave(account: string, secret: string): boolean {
+  const tool = keychainTool();
+  if (tool === "secret-tool") {
+    const proc = Bun.spawnSync(
+      ["secret-tool", "store", `--label=Fintoc CLI (${account})`, "service", SERVICE, "account", account],
+      { stdin: Buffer.from(secret), stdout: "ignore", stderr: "ignore" },
+    );
+    return proc.exitCode === 0;
+  }
+  if (tool === "security") {
+    // Never put the secret in argv (visible in `ps`): `security -i` reads the
+    // command from stdin, with the password hex-encoded (-X) so it needs no quoting
+    const command = ["add-generic-password", "-U", "-s", SERVICE, "-a", JSON.stringify(account), "-X", Buffer.from(secret).toString("hex")];
+    const proc = Bun.spawnSync(["security", "-i"], {
+      stdin: Buffer.from(`${command.join(" ")}\n`),
+      stdout: "ignore",
+      stderr: "ignore",
+    });
+    // Interactive mode can exit 0 after a failed command; read the item back to be sure
+    return proc.exitCode === 0 && keychainLoad(account) === secret;
+  }
+  return false;
+}
+
+export function keychainLoad(account: string): string | null {
+  const tool = keychainTool();
+  const cmd =
+    tool === "secret-tool"
+      ? ["secret-tool", "lookup", "service", SERVICE, "account", account]
+      : tool === "security"
+        ? ["security", "find-generic-password", "-s", SERVICE, "-a", account, "-w"]
+        : null;
+  if (!cmd) return null;
+
+  const proc = Bun.spawnSync(cmd, { stderr: "ignore" });
+  if (proc.exitCode !== 0) return null;
+  const text = proc.stdout.toString().trim();
+  return text || null;
+}
+
+export function keychainClear(account: string): void {
+  const tool = keychainTool();
+  if (tool === "secret-tool") {
+    Bun.spawnSync(["secret-tool", "clear", "service", SERVICE, "account", account], {
+      stdout: "ignore",
+      stderr: "ignore",
+    });
+  } else if (tool === "security") {
+    Bun.spawnSync(["security", "delete-generic-password", "-s", SERVICE, "-a", account], {
+      stdout: "ignore",
+      stderr: "ignore",
+    });
+  }
+}
@@ -12,6 +12,7 @@
  */
 
 import { config } from "./config.ts";
+import { cassetteFetch } from "../cassette.ts";
 
 /**
  * Build the Cookie header value from a signed session token.
@@ -25,7 +26,7 @@ export function sessionCookieHeader(signedToken: string): string {
  * POST /internal/v1/user  { jwt, name, last_name }
  */
 export async function ensureUser(jwt: string): Promise<void> {
-  const res = await fetch(`${config.api.host}/internal/v1/user`, {
+  const res = await cassetteFetch(`${config.api.host}/internal/v1/user`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ jwt, name: "CLI", last_name: "User" }),
@@ -44,7 +45,7 @@ export async function ensureUser(jwt: string): Promise<void> {
  * Returns the signed cookie value for session_token.
  */
 export async function createSession(jwt: string): Promise<string> {
-  const res = await fetch(
+  const res = await cassetteFetch(
     `${config.api.host}/internal/v1/dashboard/sessions`,
     {
       method: "POST",
@@ -76,7 +77,7 @@ export async function createSession(jwt: string): Promise<string> {
  * Expire (logout) the current session.
  */
 export async function expireSession(signedToken: string): Promise<void> {
-  const res = await fetch(
+  const res = await cassetteFetch(
     `${config.api.host}/internal/v1/dashboard/sessions/expire`,
     {
       method: "POST",
@@ -100,7 +101,7 @@ export async function expireSession(signedToken: string): Promise<void> {
 export async function validateSession(
   signedToken: string,
 ): Promise<{ active: boolean; mfaStatus?: string }> {
-  const res = await fetch(
+  const res = await cassetteFetch(
     `${config.api.host}/internal/v1/dashboard/sessions/validate`,
     {
       method: "POST",
@@ -138,7 +139,7 @@ export async function activateSession(
   signedToken: string,
   code: string,
 ): Promise<void> {
-  const res = await fetch(
+  const res = await cassetteFetch(
     `${config.api.host}/internal/v1/dashboard/sessions/activate`,
     {
       method: "POST",
@@ -162,7 +163,7 @@ export async function activateSession(
  * Only works with active sessions.
  */
 export async function getRawToken(signedToken: string): Promise<string | null> {
-  const res = await fetch(
+  const res = await cassetteFetch(
     `${config.api.host}/internal/v1/dashboard/sessions/raw_token`,
     {
       method: "GET",
@@ -177,3 +178,37 @@ export async function getRawToken(signedToken: string): Promise<string | null> {
   const data = (await res.json()) as { token?: string };
   return data.token ?? null;
 }
+
+/**
+ * Assumed session lifetime when the server does not report an expiry.
+ */
+export const SESSION_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Expiry timestamp for a session refreshed now.
+ */
+export function nextSessionExpiry(expiresAt?: string): string {
+  if (expiresAt && !Number.isNaN(Date.parse(expiresAt))) return new Date(expiresAt).toISOString();
+  return new Date(Date.now() + SESSION_TTL_MS).toISOString();
+}
+
+/**
+ * Extend the current session before it lapses.
+ * Returns the new expiry (ISO 8601), or null if the session is no longer valid.
+ */
+export async function extendSession(signedToken: string): Promise<string | null> {
+  const res = await cassetteFetch(
+    `${config.api.host}/internal/v1/dashboard/sessions/extend`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Cookie: sessionCookieHeader(signedToken),
+      },
+    },
+  );
+
+  if (!res.ok) return null;
+  const data = (await res.json().catch(() => ({}))) as { expires_at?: string };
+  return nextSessionExpiry(data.expires_at);
+}
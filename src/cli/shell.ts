@@ -0,0 +1,216 @@
+/**
+ * Interactive shell: `fintoc shell`.
+ *
+ * Keeps the session loaded (extending it as it nears expiry) and runs
+ * each line through parseCommand() and runParsedCommand(). Supports tab completion from the route table,
+ * history in ~/.config/fintoc/history (0600, OTP codes and secrets
+ * redacted), and sticky flag defaults:
+ *
+ *   fintoc> set mode live
+ *   fintoc> transfers list --limit 5      (runs with --mode live)
+ *   fintoc> unset mode
+ *
+ * Sticky route flags only reach routes that declare them; sticky control
+ * flags (--output, --columns, --query, --timeout, --dry-run, ...) apply
+ * to every command.
+ */
+
+import { createInterface } from "node:readline";
+import { join } from "node:path";
+import { appendFileSync, chmodSync, existsSync, readFileSync } from "node:fs";
+import { parseCommand, readLocalSource, PARSER_FLAG_NAMES } from "../parser.ts";
+import type { ParsedCommand } from "../parser.ts";
+import { CONTROL_FLAG_NAMES } from "../dispatcher.ts";
+import { routes, routeKey, getGroupedCommands, renderHelpText } from "../routes.ts";
+import type { RouteDefinition } from "../routes.ts";
+import { applyFlagFallbacks } from "../flags.ts";
+import { runParsedCommand } from "./run.ts";
+import { redactCommandLine } from "../redact.ts";
+import { CONFIG_DIR, ensureDir } from "./store.ts";
+import { keepSessionAlive, promptRelogin, reloginMessage } from "./keepalive.ts";
+
+const HISTORY_FILE = join(CONFIG_DIR, "history");
+const HISTORY_SIZE = 500;
+
+const BUILTINS = ["set", "unset", "defaults", "help", "exit", "quit"];
+
+/** Control flags that can be sticky. The rest (--idempotency-key, --out, --wait, --all) are per command. */
+const STICKY_CONTROL_FLAGS: readonly string[] = ["output", "columns", "query", "timeout", "dry-run", "as-curl", "as-httpie"];
+
+function loadHistory(): string[] {
+  if (!existsSync(HISTORY_FILE)) return [];
+  const lines = readFileSync(HISTORY_FILE, "utf8").split("\n").filter(Boolean);
+  // readline expects newest first
+  return lines.slice(-HISTORY_SIZE).reverse();
+}
+
+function saveHistoryLine(line: string): void {
+  ensureDir();
+  appendFileSync(HISTORY_FILE, `${redactCommandLine(line)}\n`, { mode: 0o600 });
+  chmodSync(HISTORY_FILE, 0o600);
+}
+
+/** "--dry_run" -> "dry-run"; other flag names are kept as written. */
+function stickyName(key: string): string {
+  const name = key.replace(/^--/, "");
+  const control = name.replace(/_/g, "-");
+  return (CONTROL_FLAG_NAMES as readonly string[]).includes(control) ? control : name;
+}
+
+/**
+ * Fill sticky defaults into a parsed command: route flags through
+ * applyFlagFallbacks(), sticky control flags regardless of the route.
+ */
+function applyStickyDefaults(flags: Record<string, unknown>, defaults: Record<string, unknown>, route: RouteDefinition | undefined): void {
+  applyFlagFallbacks(flags, defaults, route);
+  for (const name of STICKY_CONTROL_FLAGS) {
+    if (defaults[name] !== undefined && flags[name] === undefined && flags[name.replace(/-/g, "_")] === undefined) {
+      flags[name] = defaults[name];
+    }
+  }
+}
+
+/**
+ * --data @file works in the shell; stdin belongs to the prompt.
+ */
+function readShellSource(source: string): string {
+  if (source === "-") throw new Error("stdin is not available inside the shell; use @file");
+  return readLocalSource(source);
+}
+
+/**
+ * Complete resources, actions and flag names from the route table.
+ */
+export function completeLine(line: string): [string[], string] {
+  const grouped = getGroupedCommands();
+  const words = line.trimStart().split(/\s+/);
+  const current = words[words.length - 1] ?? "";
+  const resource = words[0] ?? "";
+  const action = words[1] ?? "";
+
+  let candidates: string[];
+  if (current.startsWith("--")) {
+    const flagNames = routes[routeKey(resource, action)]?.flags?.map((f) => f.name) ?? [];
+    candidates = [...flagNames, ...CONTROL_FLAG_NAMES, ...PARSER_FLAG_NAMES].map((name) => `--${name}`);
+  } else if (words.length <= 1) {
+    candidates = [...Object.keys(grouped), ...BUILTINS];
+  } else if (words.length === 2) {
+    candidates = [...(grouped[resource]?.map((a) => a.action) ?? []), "help"];
+  } else {
+    candidates = [];
+  }
+
+  const hits = candidates.filter((c) => c.startsWith(current));
+  return [hits, current];
+}
+
+/**
+ * Handle built-in shell commands. Returns false if the line is not a builtin.
+ */
+function runBuiltin(line: string, defaults: Record<string, unknown>): boolean {
+  const [name, key, ...rest] = line.split(/\s+/);
+
+  switch (name) {
+    case "set":
+      if (!key || rest.length === 0) {
+        console.error("Usage: set <flag> <value>   (e.g. set mode live)");
+      } else {
+        const flag = stickyName(key);
+        if ((CONTROL_FLAG_NAMES as readonly string[]).includes(flag) && !STICKY_CONTROL_FLAGS.includes(flag)) {
+          console.error(`--${flag} cannot be sticky; pass it on each command.`);
+        } else {
+          defaults[flag] = rest.join(" ");
+        }
+      }
+      return true;
+    case "unset":
+      if (!key) {
+        console.error("Usage: unset <flag>");
+      } else {
+        delete defaults[stickyName(key)];
+      }
+      return true;
+    case "defaults":
+      if (Object.keys(defaults).length === 0) {
+        console.log("No sticky defaults. Use: set <flag> <value>");
+      } else {
+        for (const [flag, value] of Object.entries(defaults)) {
+          console.log(`  --${flag} ${String(value)}`);
+        }
+      }
+      return true;
+    case "help":
+      if (key) return false; // "help" with args is handled by dispatch()
+      console.log(renderHelpText());
+      console.log("  Shell: set <flag> <value>, unset <flag>, defaults, exit\n");
+      return true;
+    default:
+      return false;
+  }
+}
+
+export async function runShell(
+  initialToken: string,
+  initialDefaults: Record<string, unknown> = {},
+): Promise<void> {
+  const defaults: Record<string, unknown> = { ...initialDefaults };
+  let token = initialToken;
+
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: "fintoc> ",
+    completer: completeLine,
+    history: loadHistory(),
+    historySize: HISTORY_SIZE,
+  });
+
+  // readline must not read the answer to the login prompt as a command
+  const relogin = async () => {
+    rl.pause();
+    const freshToken = await promptRelogin();
+    rl.resume();
+    return freshToken;
+  };
+
+  console.log('Fintoc shell. Type "help" for commands, "exit" to quit.');
+  rl.prompt();
+
+  for await (const raw of rl) {
+    const line = raw.trim();
+    if (!line) {
+      rl.prompt();
+      continue;
+    }
+    saveHistoryLine(line);
+
+    if (line === "exit" || line === "quit") break;
+
+    if (!runBuiltin(line, defaults)) {
+      let parsed: ParsedCommand;
+      try {
+        parsed = parseCommand(line, { readSource: readShellSource });
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        rl.prompt();
+        continue;
+      }
+      const route = routes[routeKey(parsed.resource, parsed.action)];
+      applyStickyDefaults(parsed.flags, defaults, route);
+      if ((await keepSessionAlive()) === "expired") {
+        const freshToken = await relogin();
+        if (!freshToken) {
+          console.error(reloginMessage());
+          rl.prompt();
+          continue;
+        }
+        token = freshToken;
+      }
+      ({ token } = await runParsedCommand(parsed, token, { relogin }));
+    }
+
+    rl.prompt();
+  }
+
+  rl.close();
+}
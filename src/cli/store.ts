@@ -1,17 +1,38 @@
 /**
- * Persists and reads auth credentials from ~/.config/fintoc/auth.json.
+ * Persists and reads auth credentials for the active profile.
  *
  * Stores two tokens:
  * - signedToken: Rails signed cookie value (for Cookie header)
  * - rawToken: plain session token (for X-Session-Token header, used by dispatcher)
+ *
+ * Credentials are never written in cleartext. They go to the OS keychain
+ * when one is available; otherwise ~/.config/fintoc/auth.json (or
+ * auth.<profile>.json) holds an encrypted envelope (see secrets.ts).
+ * With the keychain backend the file only records where the secret lives.
+ * Files are written with mode 0600 and the directory with 0700.
+ *
+ * Legacy plaintext files are re-saved encrypted the first time they are read.
  */
 
 import { homedir } from "node:os";
 import { join } from "node:path";
-import { mkdirSync, existsSync, unlinkSync } from "node:fs";
+import { mkdirSync, existsSync, unlinkSync, readdirSync, statSync, chmodSync } from "node:fs";
+import {
+  encrypt,
+  decrypt,
+  isEncryptedEnvelope,
+  preferredBackend,
+  keychainSave,
+  keychainLoad,
+  keychainClear,
+  writePrivateFile,
+  type CredentialBackend,
+} from "./secrets.ts";
 
-const CONFIG_DIR = join(homedir(), ".config", "fintoc");
-const AUTH_FILE = join(CONFIG_DIR, "auth.json");
+export const CONFIG_DIR = join(homedir(), ".config", "fintoc");
+
+let storeProfile = "default";
+let authFile = join(CONFIG_DIR, "auth.json");
 
 export interface AuthData {
   signedToken: string;
@@ -19,32 +40,115 @@ export interface AuthData {
   email: string;
   apiHost: string;
   createdAt: string;
+  /** When the dashboard session lapses unless extended (ISO 8601) */
+  expiresAt?: string;
+}
+
+/** Contents of the auth file when the secret lives in the OS keychain. */
+interface KeychainMarker {
+  storage: "keychain";
+}
+
+function isKeychainMarker(value: unknown): value is KeychainMarker {
+  return typeof value === "object" && value !== null && (value as KeychainMarker).storage === "keychain";
+}
+
+/** Profile names become file names, so they may not contain path separators or dots. */
+const PROFILE_NAME = /^[A-Za-z0-9_-]+$/;
+
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME.test(name);
+}
+
+/**
+ * Throws for a name that cannot be used as a profile (see isValidProfileName).
+ */
+export function assertProfileName(name: string): void {
+  if (!isValidProfileName(name)) {
+    throw new Error(`Invalid profile name ${JSON.stringify(name)}: use only letters, digits, "-" and "_".`);
+  }
 }
 
-function ensureDir(): void {
+/**
+ * Point the store at a profile's credentials file.
+ */
+export function setStoreProfile(profile: string): void {
+  storeProfile = profile;
+  authFile = authFileFor(profile);
+}
+
+export function authFileFor(profile: string): string {
+  assertProfileName(profile);
+  return join(CONFIG_DIR, profile === "default" ? "auth.json" : `auth.${profile}.json`);
+}
+
+export function authFilePath(): string {
+  return authFile;
+}
+
+export function ensureDir(): void {
   if (!existsSync(CONFIG_DIR)) {
-    mkdirSync(CONFIG_DIR, { recursive: true });
+    mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
   }
 }
 
-export async function save(data: AuthData): Promise<void> {
+/**
+ * Save credentials, returning the backend that ended up holding them.
+ */
+export async function save(data: AuthData): Promise<CredentialBackend> {
   ensureDir();
-  await Bun.write(AUTH_FILE, JSON.stringify(data, null, 2));
+  const json = JSON.stringify(data);
+
+  if (preferredBackend() === "keychain" && keychainSave(storeProfile, json)) {
+    const marker: KeychainMarker = { storage: "keychain" };
+    writePrivateFile(authFile, JSON.stringify(marker, null, 2));
+    return "keychain";
+  }
+
+  writePrivateFile(authFile, JSON.stringify(encrypt(CONFIG_DIR, json), null, 2));
+  return "file";
 }
 
 export async function load(): Promise<AuthData | null> {
-  const file = Bun.file(AUTH_FILE);
+  const file = Bun.file(authFile);
   if (!(await file.exists())) return null;
+
+  let contents: unknown;
   try {
-    return (await file.json()) as AuthData;
+    contents = await file.json();
   } catch {
     return null;
   }
+
+  try {
+    if (isKeychainMarker(contents)) {
+      const secret = keychainLoad(storeProfile);
+      return secret ? (JSON.parse(secret) as AuthData) : null;
+    }
+    if (isEncryptedEnvelope(contents)) {
+      return JSON.parse(decrypt(CONFIG_DIR, contents)) as AuthData;
+    }
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : "unknown error";
+    console.error(`Could not read credentials from ${authFile}: ${reason}`);
+    return null;
+  }
+
+  // Legacy plaintext file: migrate it
+  const legacy = contents as AuthData;
+  if (!legacy.rawToken && !legacy.signedToken) return null;
+  await save(legacy);
+  return legacy;
 }
 
-export function clear(): void {
-  if (existsSync(AUTH_FILE)) {
-    unlinkSync(AUTH_FILE);
+/**
+ * Remove stored credentials for a profile (the active one by default).
+ */
+export function clear(profile = storeProfile): void {
+  keychainClear(profile);
+  const path = authFileFor(profile);
+  if (existsSync(path)) {
+    unlinkSync(path);
   }
 }
 
@@ -55,3 +159,96 @@ export async function getSessionToken(): Promise<string | null> {
   const data = await load();
   return data?.rawToken || null;
 }
+
+// ── Storage diagnostics (fintoc auth doctor) ──────────────────────────────────
+
+export interface StorageFinding {
+  level: "ok" | "warn";
+  message: string;
+}
+
+function isGroupOrWorldAccessible(path: string): boolean {
+  return (statSync(path).mode & 0o077) !== 0;
+}
+
+/**
+ * Inspect the credential files on disk. With fix=true, loosened
+ * permissions are tightened and plaintext files are encrypted.
+ */
+export async function inspectStorage(fix = false): Promise<StorageFinding[]> {
+  const findings: StorageFinding[] = [];
+  const backend = preferredBackend();
+  findings.push(
+    backend === "keychain"
+      ? { level: "ok", message: "OS keychain available; new credentials are stored there" }
+      : { level: "ok", message: "No OS keychain found (secret-tool/security); using encrypted files" },
+  );
+
+  if (!existsSync(CONFIG_DIR)) {
+    findings.push({ level: "ok", message: `${CONFIG_DIR} does not exist yet (not logged in)` });
+    return findings;
+  }
+
+  if (isGroupOrWorldAccessible(CONFIG_DIR)) {
+    if (fix) chmodSync(CONFIG_DIR, 0o700);
+    findings.push({
+      level: fix ? "ok" : "warn",
+      message: `${CONFIG_DIR} is accessible by other users${fix ? " (fixed: 0700)" : '; run "chmod 700"'}`,
+    });
+  }
+
+  const keyFile = join(CONFIG_DIR, ".key");
+  if (existsSync(keyFile) && isGroupOrWorldAccessible(keyFile)) {
+    if (fix) chmodSync(keyFile, 0o600);
+    findings.push({
+      level: fix ? "ok" : "warn",
+      message: `${keyFile} is readable by other users${fix ? " (fixed: 0600)" : '; run "chmod 600"'}`,
+    });
+  }
+
+  // Only files a profile can own (see PROFILE_NAME)
+  const authFiles = readdirSync(CONFIG_DIR).filter((name) => /^auth(\.[A-Za-z0-9_-]+)?\.json$/.test(name));
+  for (const name of authFiles) {
+    const path = join(CONFIG_DIR, name);
+
+    if (isGroupOrWorldAccessible(path)) {
+      if (fix) chmodSync(path, 0o600);
+      findings.push({
+        level: fix ? "ok" : "warn",
+        message: `${path} is readable by other users${fix ? " (fixed: 0600)" : '; run "chmod 600"'}`,
+      });
+    }
+
+    let contents: unknown;
+    try {
+      contents = await Bun.file(path).json();
+    } catch {
+      findings.push({ level: "warn", message: `${path} is not valid JSON` });
+      continue;
+    }
+
+    if (isKeychainMarker(contents)) {
+      findings.push({ level: "ok", message: `${path}: stored in OS keychain` });
+    } else if (isEncryptedEnvelope(contents)) {
+      findings.push(
+        contents.kdf === "passphrase"
+          ? { level: "ok", message: `${path}: encrypted with FINTOC_PASSPHRASE` }
+          : {
+              level: "warn",
+              message: `${path}: encrypted with a local key file; set FINTOC_PASSPHRASE or install secret-tool for stronger protection`,
+            },
+      );
+    } else if (fix) {
+      const profile = name === "auth.json" ? "default" : name.slice("auth.".length, -".json".length);
+      const previous = storeProfile;
+      setStoreProfile(profile);
+      await save(contents as AuthData);
+      setStoreProfile(previous);
+      findings.push({ level: "ok", message: `${path}: plaintext credentials encrypted (fixed)` });
+    } else {
+      findings.push({ level: "warn", message: `${path}: credentials stored in plaintext` });
+    }
+  }
+
+  return findings;
+}
@@ -3,10 +3,20 @@
  *
  * Takes the Bearer token from the incoming request and forwards it
  * as a session_token cookie to Rails.
+ *
+ * Each attempt is bounded by a timeout (config.api.timeoutMs). Failed
+ * attempts are retried with jittered exponential backoff:
+ * - 429 responses, for any method (the request was not processed)
+ * - 502/503 responses, timeouts and network errors, for idempotent methods
+ *   and for requests carrying an Idempotency-Key
+ * A Retry-After header, when present, overrides the computed delay.
+ *
+ * Requests go through cassetteFetch() so they can be recorded and
+ * replayed offline (see cassette.ts).
  */
 
-const API_HOST =
-  process.env.API_HOST || "http://api.localhost:3000";
+import { config } from "./cli/config.ts";
+import { cassetteFetch, CassetteMissError } from "./cassette.ts";
 
 export interface ApiRequestOptions {
   method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
@@ -16,8 +26,27 @@ export interface ApiRequestOptions {
   body?: Record<string, unknown>;
   headers?: Record<string, string>;
   responseType?: "json" | "arraybuffer";
+  /** Per-attempt timeout; defaults to config.api.timeoutMs */
+  timeoutMs?: number;
+  /** Retries after the first attempt; defaults to config.api.maxRetries */
+  maxRetries?: number;
 }
 
+export interface ApiResponse {
+  status: number;
+  data: unknown;
+  headers: Record<string, string>;
+  /** Number of HTTP attempts made, including retries */
+  attempts: number;
+}
+
+const IDEMPOTENT_METHODS = new Set(["GET", "PUT", "DELETE"]);
+const RETRYABLE_STATUSES = new Set([502, 503]);
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 8_000;
+/** Upper bound for a server-provided Retry-After */
+const RETRY_AFTER_MAX_MS = 60_000;
+
 function buildQueryString(params: Record<string, unknown>): string {
   const parts: string[] = [];
 
@@ -43,14 +72,40 @@ function buildQueryString(params: Record<string, unknown>): string {
   return parts.length > 0 ? `?${parts.join("&")}` : "";
 }
 
-export async function apiRequest(options: ApiRequestOptions): Promise<{
-  status: number;
-  data: unknown;
+/**
+ * Delay before the next attempt: Retry-After when the server sent one,
+ * otherwise full-jitter exponential backoff.
+ */
+function retryDelay(attempt: number, retryAfter?: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(ms) && ms >= 0) return Math.min(ms, RETRY_AFTER_MAX_MS);
+  }
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+  return Math.random() * ceiling;
+}
+
+function shouldRetry(status: number, retrySafe: boolean): boolean {
+  if (status === 429) return true;
+  return retrySafe && RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * The exact HTTP request apiRequest() would send. Also used by --dry-run.
+ */
+export interface PreparedRequest {
+  method: ApiRequestOptions["method"];
+  url: string;
   headers: Record<string, string>;
-}> {
-  const { method, path, token, query, body, headers: extraHeaders, responseType } = options;
+  /** JSON-encoded body, when the request has one */
+  body?: string;
+}
+
+export function prepareRequest(options: ApiRequestOptions): PreparedRequest {
+  const { method, path, token, query, body, headers: extraHeaders } = options;
 
-  const url = `${API_HOST}${path}${query ? buildQueryString(query) : ""}`;
+  const url = `${config.api.host}${path}${query ? buildQueryString(query) : ""}`;
 
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
@@ -60,16 +115,57 @@ export async function apiRequest(options: ApiRequestOptions): Promise<{
     ...extraHeaders,
   };
 
-  const fetchOptions: RequestInit = {
+  return {
     method,
+    url,
     headers,
+    ...(body && method !== "GET" && { body: JSON.stringify(body) }),
   };
+}
 
-  if (body && method !== "GET") {
-    fetchOptions.body = JSON.stringify(body);
-  }
+export async function apiRequest(options: ApiRequestOptions): Promise<ApiResponse> {
+  const {
+    method,
+    path,
+    responseType,
+    timeoutMs = config.api.timeoutMs,
+    maxRetries = config.api.maxRetries,
+  } = options;
 
-  const response = await fetch(url, fetchOptions);
+  const { url, headers, body } = prepareRequest(options);
+  const fetchOptions: RequestInit = { method, headers, body };
+
+  const retrySafe = IDEMPOTENT_METHODS.has(method) || "Idempotency-Key" in headers;
+
+  let response: Response;
+  let attempts = 0;
+  while (true) {
+    attempts++;
+    const canRetry = attempts <= maxRetries;
+    try {
+      response = await cassetteFetch(url, { ...fetchOptions, headers, signal: AbortSignal.timeout(timeoutMs) });
+    } catch (error) {
+      if (error instanceof CassetteMissError) throw error;
+      const timedOut = error instanceof Error && error.name === "TimeoutError";
+      if (canRetry && retrySafe) {
+        await Bun.sleep(retryDelay(attempts));
+        continue;
+      }
+      const reason = timedOut
+        ? `timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : "network error";
+      const tries = attempts > 1 ? ` (${attempts} attempts)` : "";
+      throw new Error(`${method} ${path} ${reason}${tries}`);
+    }
+
+    if (canRetry && shouldRetry(response.status, retrySafe)) {
+      const delay = retryDelay(attempts, response.headers.get("retry-after"));
+      await response.body?.cancel();
+      await Bun.sleep(delay);
+      continue;
+    }
+    break;
+  }
 
   // Extract response headers we care about
   const responseHeaders: Record<string, string> = {};
@@ -77,8 +173,9 @@ export async function apiRequest(options: ApiRequestOptions): Promise<{
     responseHeaders[key] = value;
   });
 
+  // Error bodies are JSON even on file routes
   let data: unknown;
-  if (responseType === "arraybuffer") {
+  if (responseType === "arraybuffer" && response.ok) {
     data = Buffer.from(await response.arrayBuffer()).toString("base64");
   } else {
     const text = await response.text();
@@ -93,5 +190,6 @@ export async function apiRequest(options: ApiRequestOptions): Promise<{
     status: response.status,
     data,
     headers: responseHeaders,
+    attempts,
   };
 }
@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { dispatch, prepareRouteRequest, previewFormat } from "./dispatcher.ts";
+import { routes } from "./routes.ts";
+import type { ParsedCommand } from "./parser.ts";
+import { ejectCassette, useCassette } from "./cassette.ts";
+
+const CASSETTE = new URL("../fixtures/transfers.json", import.meta.url).pathname;
+
+describe("dispatch", () => {
+  test("leaves the command's flags untouched so it can be dispatched again", async () => {
+    const command: ParsedCommand = {
+      resource: "accounts",
+      action: "movement",
+      args: ["acc_1"],
+      flags: { id: "mov_1", "dry-run": true, output: "json", "idempotency-key": "k1" },
+    };
+    const before = structuredClone(command);
+
+    const first = await dispatch(command, "token");
+    expect(command).toEqual(before);
+    const second = await dispatch(command, "token");
+
+    expect(first.success).toBe(true);
+    expect(second.data).toEqual(first.data);
+    expect((second.data as { url: string }).url).toEndWith("/accounts/acc_1/movements/mov_1?mode=test");
+  });
+});
+
+describe("prepareRouteRequest", () => {
+  const route = routes["transfer-intents.create"]!;
+  const command = (flags: Record<string, unknown>): ParsedCommand => ({ resource: "transfer-intents", action: "create", flags });
+
+  test("keeps one Idempotency-Key for every page and reuses a given one", () => {
+    const prepared = prepareRouteRequest(command({ account_id: "acc_1", amount: 5 }), route, { token: "t" });
+    if (Array.isArray(prepared)) throw new Error(prepared.join("; "));
+    expect(prepared.idempotencyKey).toBeString();
+    expect(prepared.requestFor({}).headers).toEqual({ "Idempotency-Key": prepared.idempotencyKey! });
+    expect(prepared.requestFor({ page: 2 }).headers).toEqual(prepared.requestFor({}).headers);
+
+    const reused = prepareRouteRequest(command({ account_id: "acc_1", amount: 5 }), route, { token: "t", idempotencyKey: "k1" });
+    expect(Array.isArray(reused) ? reused : reused.idempotencyKey).toBe("k1");
+  });
+
+  test("returns validation errors instead of a request", () => {
+    expect(prepareRouteRequest(command({ amount: "five" }), route, { token: "t" })).toEqual([
+      expect.stringContaining("--account_id"),
+      expect.stringContaining("--amount"),
+    ]);
+  });
+});
+
+describe("previewFormat", () => {
+  test("reads every spelling of the preview flags", () => {
+    expect(previewFormat({ "dry-run": true })).toBe("http");
+    expect(previewFormat({ dry_run: "true" })).toBe("http");
+    expect(previewFormat({ "as-curl": "true" })).toBe("curl");
+    expect(previewFormat({ as_httpie: true })).toBe("httpie");
+    expect(previewFormat({ "dry-run": false, limit: 5 })).toBeUndefined();
+  });
+});
+
+describe("dispatch with a replayed cassette", () => {
+  beforeAll(() => useCassette(CASSETTE, "replay"));
+  afterAll(() => ejectCassette());
+
+  test("serves the recorded response", async () => {
+    const result = await dispatch({ resource: "transfers", action: "list", flags: { limit: 2, mode: "test" } }, "token");
+
+    expect(result.success).toBe(true);
+    const transfers = result.data as { id: string; mode: string }[];
+    expect(transfers.map((t) => t.id)).toEqual(["tr_000001", "tr_000002"]);
+    expect(transfers.every((t) => t.mode === "test")).toBe(true);
+  });
+
+  test("fails on a request the cassette does not have", async () => {
+    const result = await dispatch({ resource: "transfers", action: "list", flags: { mode: "live" } }, "token");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toStartWith("No cassette interaction for GET /internal/v2/dashboard/transfers?mode=live");
+  });
+});
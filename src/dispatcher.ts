@@ -4,8 +4,18 @@
  */
 
 import type { ParsedCommand } from "./parser.ts";
-import { routes, routeKey, getAvailableCommands, getGroupedCommands, renderHelpText, renderResourceHelpText } from "./routes.ts";
-import { apiRequest } from "./client.ts";
+import { routes, routeKey, pathParams, routeSignature, getAvailableCommands, getGroupedCommands, renderHelpText, renderResourceHelpText } from "./routes.ts";
+import { apiRequest, prepareRequest } from "./client.ts";
+import type { ApiRequestOptions, PreparedRequest } from "./client.ts";
+import { redactHeaders } from "./redact.ts";
+import { renderRequest } from "./snippets.ts";
+import type { RequestDescription, RequestFormat } from "./snippets.ts";
+import { applyFlagDefaults, validateFlags } from "./flags.ts";
+import { fetchAllPages, DEFAULT_MAX_PAGES } from "./pagination.ts";
+import { formatOutput, isOutputFormat, OUTPUT_FORMATS } from "./format.ts";
+import type { FormatOptions } from "./format.ts";
+import { compileQuery } from "./query.ts";
+import { suggestCommands, suggestResources, suggestFlags, didYouMean } from "./suggest.ts";
 import type { RouteDefinition } from "./routes.ts";
 
 export interface DispatchResult {
@@ -15,73 +25,305 @@ export interface DispatchResult {
   text?: string;
   error?: string;
   headers?: Record<string, string>;
+  /** Number of pages fetched when --all was used */
+  pages?: number;
+  /** True when --all stopped at --max-pages before the list was exhausted */
+  truncated?: boolean;
+  /** Close matches for an unknown resource/action ("resource action" strings) */
+  suggestions?: string[];
+  /** Non-fatal notices, e.g. flags that look like typos of declared flags */
+  warnings?: string[];
+  /** HTTP attempts made, including retries (summed across pages with --all) */
+  attempts?: number;
+  /** Idempotency-Key sent with a money-moving request; reuse it to retry safely */
+  idempotencyKey?: string;
+  /** True when --dry-run/--as-curl/--as-httpie returned the request instead of calling the API */
+  dryRun?: boolean;
+  /** True when `data` is a base64-encoded file (routes with responseType "arraybuffer") */
+  binary?: boolean;
+  /** True when a request was sent but no response arrived (network error or timeout) */
+  networkError?: boolean;
 }
 
 /**
  * Separate flags into query params and body based on route definition and HTTP method.
+ * current_organization_id always goes in the query (Rails injects it on
+ * every request via interceptor in the dashboard).
  */
-function splitFlags(
+export function splitFlags(
   flags: Record<string, unknown>,
   route: RouteDefinition
 ): { query: Record<string, unknown>; body: Record<string, unknown> } {
-  // If flagsIn is explicitly set, all flags go there
-  if (route.flagsIn === "query") {
-    return { query: flags, body: {} };
+  const query: Record<string, unknown> = {};
+  const body: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(flags)) {
+    if (flagLocation(key, route) === "query") {
+      query[key] = value;
+    } else {
+      body[key] = value;
+    }
   }
-  if (route.flagsIn === "body") {
-    return { query: {}, body: flags };
+
+  if (flags.current_organization_id) {
+    query.current_organization_id = flags.current_organization_id;
+    delete body.current_organization_id;
   }
+  return { query, body };
+}
+
+/**
+ * Decide where a single flag goes.
+ * Precedence: per-flag `in` > route flagsIn > route queryFlags > HTTP method.
+ */
+export function flagLocation(name: string, route: RouteDefinition): "query" | "body" {
+  const def = route.flags?.find((f) => f.name === name);
+  if (def?.in) return def.in;
+
+  // If flagsIn is explicitly set, all flags go there
+  if (route.flagsIn) return route.flagsIn;
 
   // If queryFlags is specified, those go in query, rest in body
   if (route.queryFlags && route.queryFlags.length > 0) {
-    const query: Record<string, unknown> = {};
-    const body: Record<string, unknown> = {};
-
-    for (const [key, value] of Object.entries(flags)) {
-      if (route.queryFlags.includes(key)) {
-        query[key] = value;
-      } else {
-        body[key] = value;
-      }
-    }
-    return { query, body };
+    return route.queryFlags.includes(name) ? "query" : "body";
   }
 
   // Default: GET/DELETE -> query, POST/PUT/PATCH -> body
-  if (route.method === "GET" || route.method === "DELETE") {
-    return { query: flags, body: {} };
-  }
-  return { query: {}, body: flags };
+  return route.method === "GET" || route.method === "DELETE" ? "query" : "body";
 }
 
 /**
- * Replace :id in path template with the actual ID value.
+ * Fill the path template's :name placeholders. Each one takes --name when
+ * given (the flag is then not sent to the API), otherwise the next
+ * positional argument. Returns leftover positionals as `extra`.
  */
-function resolvePath(pathTemplate: string, id?: string): string {
-  if (!pathTemplate.includes(":id")) return pathTemplate;
+export function resolvePath(
+  command: ParsedCommand,
+  route: RouteDefinition,
+  flags: Record<string, unknown>
+): { path: string; extra: string[] } {
+  const positionals = [...(command.args ?? (command.id !== undefined ? [command.id] : []))];
+  const missing: string[] = [];
 
-  if (!id) {
+  const path = route.path.replace(/:(\w+)/g, (placeholder, name: string) => {
+    const flag = flags[name];
+    let value: string | undefined;
+    if (flag !== undefined && typeof flag !== "boolean" && typeof flag !== "object") {
+      value = String(flag);
+      delete flags[name];
+    } else {
+      value = positionals.shift();
+    }
+    if (value === undefined || value === "") {
+      missing.push(name);
+      return placeholder;
+    }
+    return encodeURIComponent(value);
+  });
+
+  if (missing.length > 0) {
+    const usage = `fintoc ${command.resource} ${command.action} ${routeSignature(route)}`;
     throw new Error(
-      `This command requires an ID argument. Usage: fintoc <resource> <action> <id> [--flags]`
+      `Missing ${missing.map((name) => `<${name}>`).join(", ")}. Usage: ${usage} ` +
+        `(or pass ${missing.map((name) => `--${name}`).join(", ")})`
     );
   }
+  return { path, extra: positionals };
+}
+
+export interface RouteRequestOptions {
+  token: string;
+  /** Key to send instead of a new one (idempotent routes only) */
+  idempotencyKey?: string;
+  timeoutMs?: number;
+}
+
+export interface RouteRequest {
+  /** Query params of the first (or only) request */
+  query: Record<string, unknown>;
+  /** Positional arguments left over after filling the path */
+  extra: string[];
+  /** Idempotency-Key sent with every request of an idempotent route */
+  idempotencyKey?: string;
+  /** apiRequest() options for one page of the query */
+  requestFor: (pageQuery: Record<string, unknown>) => ApiRequestOptions;
+}
+
+/**
+ * Build the API request for a route, shared by dispatch() and the SDK:
+ * apply flag defaults, validate flags, fill the path, split query and body
+ * and pick the Idempotency-Key. `command.flags` must not hold control flags
+ * and is modified in place. Returns the validation errors when a flag is
+ * invalid; throws when a path placeholder is missing.
+ */
+export function prepareRouteRequest(
+  command: ParsedCommand,
+  route: RouteDefinition,
+  options: RouteRequestOptions
+): RouteRequest | string[] {
+  // Apply declared defaults and reject invalid flags before calling the API
+  applyFlagDefaults(command.flags, route);
+  const errors = validateFlags(command.flags, route);
+  if (errors.length > 0) return errors;
+
+  const { path, extra } = resolvePath(command, route, command.flags);
+  const { query, body } = splitFlags(command.flags, route);
+  // One key per logical operation: every retry and page of this request reuses it
+  const idempotencyKey = route.idempotent ? options.idempotencyKey ?? crypto.randomUUID() : undefined;
+
+  const requestFor = (pageQuery: Record<string, unknown>): ApiRequestOptions => ({
+    method: route.method,
+    path,
+    token: options.token,
+    query: Object.keys(pageQuery).length > 0 ? pageQuery : undefined,
+    body: Object.keys(body).length > 0 ? body : undefined,
+    headers: idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined,
+    responseType: route.responseType,
+    timeoutMs: options.timeoutMs,
+  });
+  return { query, extra, idempotencyKey, requestFor };
+}
+
+/**
+ * The request format asked for by --as-curl, --as-httpie or --dry-run
+ * (in any of their spellings), or undefined when the request should be sent.
+ */
+export function previewFormat(flags: Record<string, unknown>): RequestFormat | undefined {
+  const isSet = (name: string) => {
+    const value = flags[name] ?? flags[name.replace(/-/g, "_")];
+    return value === true || value === "true";
+  };
+  if (isSet("as-curl")) return "curl";
+  if (isSet("as-httpie")) return "httpie";
+  if (isSet("dry-run")) return "http";
+  return undefined;
+}
+
+/**
+ * Flag names consumed by the dispatcher itself. They are never sent to the API.
+ * --out and --wait are read by the CLI (see download.ts, exports.ts) before dispatching.
+ */
+export const CONTROL_FLAG_NAMES = ["all", "max-pages", "output", "columns", "query", "timeout", "idempotency-key", "dry-run", "as-curl", "as-httpie", "out", "wait"] as const;
+
+interface ControlFlags {
+  fetchAll: boolean;
+  maxPages: number;
+  format: FormatOptions;
+  /** Compiled --query, applied to data before formatting */
+  query?: (data: unknown) => unknown;
+  /** --timeout in seconds, converted to a per-attempt timeout */
+  timeoutMs?: number;
+  /** --idempotency-key override for idempotent routes */
+  idempotencyKey?: string;
+  /** --dry-run / --as-curl / --as-httpie: render the request instead of sending it */
+  preview?: RequestFormat;
+  /** --out was given */
+  out: boolean;
+  /** --wait was given */
+  wait: boolean;
+}
+
+/**
+ * Remove dispatcher control flags from `flags` and validate them.
+ * Returns an error message when a control flag has an invalid value.
+ */
+function takeControlFlags(flags: Record<string, unknown>): ControlFlags | string {
+  const maxPagesFlag = flags["max-pages"] ?? flags.max_pages;
+  const fetchAll = flags.all === true || flags.all === "true" || maxPagesFlag !== undefined;
+  const output = flags.output;
+  const columns = flags.columns;
+  const query = flags.query;
+  const timeout = flags.timeout;
+  const idempotencyKey = flags["idempotency-key"] ?? flags.idempotency_key;
+  const out = flags.out !== undefined;
+  const wait = flags.wait !== undefined;
+  const preview = previewFormat(flags);
+  for (const name of [...CONTROL_FLAG_NAMES, "max_pages", "idempotency_key", "dry_run", "as_curl", "as_httpie"]) {
+    delete flags[name];
+  }
+
+  let maxPages = DEFAULT_MAX_PAGES;
+  if (maxPagesFlag !== undefined) {
+    maxPages = Number(maxPagesFlag);
+    if (!Number.isInteger(maxPages) || maxPages < 1) {
+      return `Invalid value for --max-pages: ${JSON.stringify(maxPagesFlag)}. Expected a positive integer.`;
+    }
+  }
+
+  if (output !== undefined && !isOutputFormat(output)) {
+    return `Invalid value for --output: ${JSON.stringify(output)}. Expected one of: ${OUTPUT_FORMATS.join(", ")}`;
+  }
+
+  let timeoutMs: number | undefined;
+  if (timeout !== undefined) {
+    const seconds = Number(timeout);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      return `Invalid value for --timeout: ${JSON.stringify(timeout)}. Expected a positive number of seconds.`;
+    }
+    timeoutMs = seconds * 1000;
+  }
+
+  // The parser turns digit-only values into numbers; keys are opaque strings
+  const isKey = (typeof idempotencyKey === "string" && idempotencyKey !== "") || typeof idempotencyKey === "number";
+  if (idempotencyKey !== undefined && !isKey) {
+    return `Invalid value for --idempotency-key: ${JSON.stringify(idempotencyKey)}. Expected a non-empty string.`;
+  }
+
+  let compiled: ((data: unknown) => unknown) | undefined;
+  if (query !== undefined && query !== "") {
+    try {
+      compiled = compileQuery(String(query));
+    } catch (error) {
+      return error instanceof Error ? error.message : `Invalid --query: ${String(query)}`;
+    }
+  }
+
+  return {
+    fetchAll,
+    maxPages,
+    format: {
+      output,
+      columns: parseColumns(columns),
+    },
+    query: compiled,
+    timeoutMs,
+    idempotencyKey: idempotencyKey === undefined ? undefined : String(idempotencyKey),
+    preview,
+    out,
+    wait,
+  };
+}
 
-  return pathTemplate.replace(":id", encodeURIComponent(id));
+function describeRequest(request: PreparedRequest): RequestDescription {
+  return {
+    method: request.method,
+    url: request.url,
+    headers: redactHeaders(request.headers),
+    ...(request.body !== undefined && { body: JSON.parse(request.body) as unknown }),
+  };
 }
 
 /**
- * Format any data as CLI-friendly text output.
+ * Accept columns as "id,amount,status" or an array.
  */
-function formatAsText(data: unknown): string {
-  if (data === undefined || data === null) return "";
-  if (typeof data === "string") return data;
-  return JSON.stringify(data, null, 2);
+function parseColumns(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const list = Array.isArray(value) ? value.map(String) : String(value).split(",");
+  const columns = list.map((c) => c.trim()).filter(Boolean);
+  return columns.length > 0 ? columns : undefined;
 }
 
+/**
+ * Run a parsed command. `input` is left untouched, so callers can dispatch
+ * it again (e.g. after logging in again).
+ */
 export async function dispatch(
-  command: ParsedCommand,
+  input: ParsedCommand,
   token: string
 ): Promise<DispatchResult> {
+  // Control flags, path placeholders and defaults are consumed from a copy
+  const command: ParsedCommand = { ...input, flags: { ...input.flags } };
+
   // Handle help command (matches: "help", "help!", "", or any resource with action "help")
   const normalizedResource = command.resource.replace(/[!?]+$/, "");
   if (
@@ -98,8 +340,9 @@ export async function dispatch(
         const text = renderResourceHelpText(normalizedResource, resourceCommands);
         return { success: true, text, data: text };
       }
-      const errMsg = `Unknown resource: "${normalizedResource}". Run "fintoc help" for all available commands.`;
-      return { success: false, error: errMsg, text: errMsg };
+      const suggestions = suggestResources(normalizedResource);
+      const errMsg = `Unknown resource: "${normalizedResource}".${didYouMean(suggestions)} Run "fintoc help" for all available commands.`;
+      return { success: false, error: errMsg, text: errMsg, suggestions };
     }
 
     const text = renderHelpText();
@@ -110,50 +353,119 @@ export async function dispatch(
   const route = routes[key];
 
   if (!route) {
-    const errMsg = `Unknown command: "${command.resource} ${command.action}". Run "fintoc help" for available commands.`;
+    const suggestions = suggestCommands(command.resource, command.action);
+    const errMsg = `Unknown command: "${command.resource} ${command.action}".${didYouMean(suggestions)} Run "fintoc help" for available commands.`;
     return {
       success: false,
       error: errMsg,
       text: errMsg,
+      suggestions,
     };
   }
 
+  const controls = takeControlFlags(command.flags);
+  if (typeof controls === "string") {
+    return { success: false, error: controls, text: controls };
+  }
+  if (controls.fetchAll && !route.pagination) {
+    const errMsg = `"${command.resource} ${command.action}" is not a paginated list. --all and --max-pages are not supported.`;
+    return { success: false, error: errMsg, text: errMsg };
+  }
+
+  const warnings = Object.entries(
+    suggestFlags(command.flags, route, ["current_organization_id", ...pathParams(route.path)])
+  ).map(([flag, matches]) => `Unknown flag --${flag}.${didYouMean(matches, "--")}`);
+  if (controls.idempotencyKey && !route.idempotent) {
+    warnings.push(`--idempotency-key is ignored: "${command.resource} ${command.action}" does not use idempotency keys.`);
+  }
+  if (controls.out && route.responseType !== "arraybuffer" && !route.pollRoute) {
+    warnings.push(`--out is ignored: "${command.resource} ${command.action}" does not return a file.`);
+  }
+  if (controls.wait && !route.pollRoute) {
+    warnings.push(`--wait is ignored: "${command.resource} ${command.action}" does not create an export.`);
+  }
+
+  let idempotencyKey: string | undefined;
+  // Requests handed to apiRequest(), so the catch below can tell a network failure from a local error
+  let sent = 0;
   try {
-    // Apply defaults for common flags when not explicitly provided
-    const description = route.description ?? "";
-    if (!command.flags.mode && description.includes("--mode")) {
-      command.flags.mode = "test";
+    const prepared = prepareRouteRequest(command, route, {
+      token,
+      idempotencyKey: controls.idempotencyKey,
+      timeoutMs: controls.timeoutMs,
+    });
+    if (Array.isArray(prepared)) {
+      const errMsg = `Invalid flags for "${command.resource} ${command.action}":\n  ${prepared.join("\n  ")}`;
+      return {
+        success: false,
+        error: errMsg,
+        text: errMsg,
+      };
     }
-    if (!command.flags.limit && description.includes("--limit")) {
-      command.flags.limit = 10;
+    const { query, extra, requestFor } = prepared;
+    idempotencyKey = prepared.idempotencyKey;
+    if (extra.length > 0) {
+      warnings.push(`Ignoring extra argument(s): ${extra.join(" ")}`);
     }
 
-    const path = resolvePath(route.path, command.id);
-    const { query, body } = splitFlags(command.flags, route);
+    if (controls.preview) {
+      const request = describeRequest(prepareRequest(requestFor(query)));
+      if (controls.fetchAll) {
+        warnings.push("Only the first page request is shown.");
+      }
+      return {
+        success: true,
+        data: request,
+        text:
+          controls.preview === "http" && controls.format.output
+            ? formatOutput(request, controls.format)
+            : renderRequest(request, controls.preview),
+        dryRun: true,
+        idempotencyKey,
+        ...(warnings.length > 0 && { warnings }),
+      };
+    }
 
-    // Extract current_organization_id from flags and add to query if present
-    // (Rails injects this on every request via interceptor in the dashboard)
-    if (command.flags.current_organization_id) {
-      query.current_organization_id = command.flags.current_organization_id;
-      delete body.current_organization_id;
+    let attempts = 0;
+    const send = async (pageQuery: Record<string, unknown>) => {
+      sent += 1;
+      const response = await apiRequest(requestFor(pageQuery));
+      attempts += response.attempts;
+      return response;
+    };
+
+    if (controls.fetchAll) {
+      const result = await fetchAllPages(route, query, send, controls.maxPages);
+      const success = result.status >= 200 && result.status < 300;
+      const data = success && controls.query ? controls.query(result.data) : result.data;
+      return {
+        success,
+        status: result.status,
+        data,
+        text: success ? formatOutput(data, controls.format) : formatOutput(data),
+        headers: result.headers,
+        pages: result.pages,
+        truncated: result.truncated,
+        attempts,
+        idempotencyKey,
+        ...(warnings.length > 0 && { warnings }),
+      };
     }
 
-    const result = await apiRequest({
-      method: route.method,
-      path,
-      token,
-      query: Object.keys(query).length > 0 ? query : undefined,
-      body: Object.keys(body).length > 0 ? body : undefined,
-      responseType: route.responseType,
-    });
+    const result = await send(query);
 
     const success = result.status >= 200 && result.status < 300;
+    const data = success && controls.query ? controls.query(result.data) : result.data;
     return {
       success,
       status: result.status,
-      data: result.data,
-      text: formatAsText(result.data),
+      data,
+      text: success ? formatOutput(data, controls.format) : formatOutput(data),
       headers: result.headers,
+      attempts,
+      idempotencyKey,
+      ...(success && route.responseType === "arraybuffer" && { binary: true }),
+      ...(warnings.length > 0 && { warnings }),
     };
   } catch (error) {
     const message =
@@ -162,6 +474,9 @@ export async function dispatch(
       success: false,
       error: message,
       text: `Error: ${message}`,
+      idempotencyKey,
+      ...(sent > 0 && { networkError: true }),
+      ...(warnings.length > 0 && { warnings }),
     };
   }
 }
@@ -0,0 +1,122 @@
+/**
+ * Saving file responses (routes with responseType "arraybuffer") to disk.
+ *
+ * The dispatcher returns file bodies base64-encoded. With --out the CLI
+ * decodes them and writes the file:
+ *   --out receipt.pdf   write to that path
+ *   --out invoices/     write into the directory, named after Content-Disposition
+ *   --out               same, in the current directory
+ * Without a Content-Disposition filename, "<resource>-<id>.<ext>" is used
+ * with the extension taken from Content-Type.
+ */
+
+import { existsSync, mkdirSync, statSync } from "node:fs";
+import { basename, join } from "node:path";
+
+const EXTENSIONS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "application/zip": "zip",
+  "application/xml": "xml",
+  "text/xml": "xml",
+  "text/csv": "csv",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+};
+
+export interface SavedFile {
+  path: string;
+  bytes: number;
+}
+
+/**
+ * Extract the filename from a Content-Disposition header. Prefers the
+ * RFC 5987 `filename*` form; path components are stripped.
+ */
+export function filenameFromDisposition(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+
+  const extended = header.match(/filename\*\s*=\s*[^']*'[^']*'([^;]+)/i);
+  const plain = header.match(/filename\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]+))/i);
+  let name: string | undefined;
+  if (extended?.[1]) {
+    try {
+      name = decodeURIComponent(extended[1].trim());
+    } catch {
+      name = undefined;
+    }
+  }
+  name ??= plain?.[1]?.replace(/\\(.)/g, "$1") ?? plain?.[2]?.trim();
+
+  const safe = name ? basename(name.replace(/\\/g, "/")).trim() : "";
+  return safe && safe !== "." && safe !== ".." ? safe : undefined;
+}
+
+function extensionFor(contentType: string | undefined): string {
+  const mime = contentType?.split(";")[0]?.trim().toLowerCase() ?? "";
+  return EXTENSIONS[mime] ?? "bin";
+}
+
+/**
+ * Pick the path to write to. `out` is the --out value (true when given
+ * without a path); `fallbackName` is used without Content-Disposition.
+ */
+export function resolveOutputPath(
+  out: string | true,
+  headers: Record<string, string>,
+  fallbackName: string
+): string {
+  const filename =
+    filenameFromDisposition(headers["content-disposition"]) ??
+    `${fallbackName}.${extensionFor(headers["content-type"])}`;
+
+  if (out === true || out === "") return filename;
+  if (out.endsWith("/")) {
+    mkdirSync(out, { recursive: true });
+    return join(out, filename);
+  }
+  if (existsSync(out) && statSync(out).isDirectory()) return join(out, filename);
+  return out;
+}
+
+/**
+ * Write file contents to the path picked by resolveOutputPath().
+ */
+export async function saveFile(
+  contents: Uint8Array,
+  out: string | true,
+  headers: Record<string, string>,
+  fallbackName: string
+): Promise<SavedFile> {
+  const path = resolveOutputPath(out, headers, fallbackName);
+  const bytes = await Bun.write(path, contents);
+  return { path, bytes };
+}
+
+/**
+ * Decode a base64 file body and write it to disk.
+ */
+export async function saveDownload(
+  data: unknown,
+  out: string | true,
+  headers: Record<string, string>,
+  fallbackName: string
+): Promise<SavedFile> {
+  if (typeof data !== "string") {
+    throw new Error("The response is not a file.");
+  }
+  return saveFile(Buffer.from(data, "base64"), out, headers, fallbackName);
+}
+
+/**
+ * Read --out from parsed flags before dispatch() strips it.
+ */
+export function outFlag(flags: Record<string, unknown>): string | true | undefined {
+  const out = flags.out;
+  if (out === undefined || out === false || out === "false") return undefined;
+  // A bare --out parses as true (or "true")
+  return out === true || out === "true" ? true : String(out);
+}
+
+export function describeFile(data: unknown, headers: Record<string, string>): string {
+  const bytes = typeof data === "string" ? Buffer.byteLength(data, "base64") : 0;
+  return `${headers["content-type"] ?? "binary"}, ${bytes} bytes`;
+}
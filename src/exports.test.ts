@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import { exportDownloadUrl, exportTimeoutMs } from "./exports.ts";
+import { config } from "./cli/config.ts";
+
+describe("exportDownloadUrl", () => {
+  test("resolves a relative URL against the API host", () => {
+    const url = exportDownloadUrl({ id: "exp_1", download_url: "/mock/exports/exp_1.csv" });
+    expect(url).toBe(new URL("/mock/exports/exp_1.csv", config.api.host).toString());
+  });
+
+  test("keeps absolute URLs", () => {
+    expect(exportDownloadUrl({ id: "exp_1", url: "https://files.example.com/exp_1.csv?sig=abc" })).toBe(
+      "https://files.example.com/exp_1.csv?sig=abc"
+    );
+    expect(exportDownloadUrl({ id: "exp_1" })).toBeUndefined();
+  });
+});
+
+describe("exportTimeoutMs", () => {
+  test("reads seconds, or the default for a bare --wait", () => {
+    expect(exportTimeoutMs(30)).toBe(30_000);
+    expect(exportTimeoutMs(true)).toBe(10 * 60 * 1000);
+    expect(() => exportTimeoutMs("soon")).toThrow("Invalid value for --wait");
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Waiting for asynchronous exports.
+ *
+ * The exports.create* routes answer with an export record ({ id, status })
+ * while the file is generated in the background. waitForExport() polls the
+ * route's `pollRoute` (exports.show / exports.show-v2) with exponential
+ * backoff until the export is ready, has failed, or the timeout passes;
+ * downloadExport() then fetches the finished file.
+ *
+ * Used by `--wait` in the CLI and by the export_data agent tool.
+ */
+
+import { dispatch } from "./dispatcher.ts";
+import { apiRequest } from "./client.ts";
+import { config } from "./cli/config.ts";
+
+/** Default for a bare --wait. */
+export const DEFAULT_EXPORT_TIMEOUT_MS = 10 * 60 * 1000;
+
+const POLL_BASE_MS = 1_000;
+const POLL_MAX_MS = 15_000;
+
+const READY_STATUSES = new Set(["completed", "succeeded", "ready", "finished", "done"]);
+const FAILED_STATUSES = new Set(["failed", "error", "canceled", "cancelled", "expired"]);
+
+export type ExportRecord = Record<string, unknown> & { id: string; status?: string };
+export type ExportState = "ready" | "failed" | "pending";
+
+export interface WaitForExportOptions {
+  /** Flags forwarded to every poll (mode, current_organization_id) */
+  flags?: Record<string, unknown>;
+  timeoutMs?: number;
+  /** Called after every poll */
+  onPoll?: (record: ExportRecord, elapsedMs: number) => void;
+}
+
+export interface WaitForExportResult {
+  state: ExportState;
+  record: ExportRecord;
+  /** True when the timeout passed before the export finished */
+  timedOut: boolean;
+}
+
+export interface DownloadedExport {
+  bytes: Uint8Array;
+  headers: Record<string, string>;
+}
+
+export function isExportRecord(value: unknown): value is ExportRecord {
+  return !!value && typeof value === "object" && typeof (value as { id?: unknown }).id === "string";
+}
+
+/** Download URL of a finished export, whichever field the API used. */
+export function exportUrl(record: ExportRecord): string | undefined {
+  const url = record.url ?? record.file_url ?? record.download_url;
+  return typeof url === "string" && url !== "" ? url : undefined;
+}
+
+/** exportUrl() resolved against the API host, for links handed out of the CLI. */
+export function exportDownloadUrl(record: ExportRecord): string | undefined {
+  const url = exportUrl(record);
+  return url === undefined ? undefined : new URL(url, config.api.host).toString();
+}
+
+export function exportState(record: ExportRecord): ExportState {
+  const status = String(record.status ?? "").toLowerCase();
+  if (FAILED_STATUSES.has(status)) return "failed";
+  if (READY_STATUSES.has(status) || (!record.status && exportUrl(record))) return "ready";
+  return "pending";
+}
+
+/**
+ * Parse --wait: bare means the default timeout, a number is seconds.
+ */
+export function exportTimeoutMs(value: unknown): number {
+  if (value === true || value === "true") return DEFAULT_EXPORT_TIMEOUT_MS;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error(`Invalid value for --wait: ${JSON.stringify(value)}. Expected a number of seconds, or no value.`);
+  }
+  return seconds * 1000;
+}
+
+/**
+ * Poll `pollRoute` ("resource.action") for export `id` until it is ready,
+ * failed, or `timeoutMs` passes. Throws when a poll request fails.
+ */
+export async function waitForExport(
+  pollRoute: string,
+  id: string,
+  token: string,
+  options: WaitForExportOptions = {}
+): Promise<WaitForExportResult> {
+  const [resource = "", action = ""] = pollRoute.split(".");
+  const timeoutMs = options.timeoutMs ?? DEFAULT_EXPORT_TIMEOUT_MS;
+  const started = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await dispatch({ resource, action, id, flags: { ...options.flags } }, token);
+    if (!result.success || !isExportRecord(result.data)) {
+      throw new Error(`Could not check export ${id}: ${result.error ?? result.text ?? "unexpected response"}`);
+    }
+
+    const record = result.data;
+    const elapsed = Date.now() - started;
+    options.onPoll?.(record, elapsed);
+
+    const state = exportState(record);
+    if (state !== "pending") return { state, record, timedOut: false };
+
+    const remaining = timeoutMs - elapsed;
+    if (remaining <= 0) return { state, record, timedOut: true };
+    await Bun.sleep(Math.min(POLL_BASE_MS * 2 ** attempt, POLL_MAX_MS, remaining));
+  }
+}
+
+/**
+ * Fetch the file of a finished export. Absolute URLs (pre-signed storage
+ * links) are fetched without the session token; API-relative paths go
+ * through apiRequest().
+ */
+export async function downloadExport(record: ExportRecord, token: string): Promise<DownloadedExport> {
+  const url = exportUrl(record);
+  if (!url) throw new Error(`Export ${record.id} has no download URL.`);
+
+  if (/^https?:\/\//i.test(url)) {
+    const timeoutMs = config.api.timeoutMs;
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+    } catch (error) {
+      const reason = error instanceof Error && error.name === "TimeoutError"
+        ? `timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : "network error";
+      throw new Error(`Downloading export ${record.id} failed: ${reason}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Downloading export ${record.id} failed: HTTP ${response.status}`);
+    }
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    return { bytes: new Uint8Array(await response.arrayBuffer()), headers };
+  }
+
+  const response = await apiRequest({ method: "GET", path: url, token, responseType: "arraybuffer" });
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Downloading export ${record.id} failed: HTTP ${response.status}`);
+  }
+  return { bytes: Buffer.from(String(response.data), "base64"), headers: response.headers };
+}
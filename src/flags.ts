@@ -0,0 +1,109 @@
+/**
+ * Flag schema helpers: defaults and validation driven by the
+ * `flags` declared on each route definition.
+ */
+
+import type { FlagDefinition, RouteDefinition } from "./routes.ts";
+
+/**
+ * Fill in defaults for declared flags that were not provided.
+ */
+export function applyFlagDefaults(
+  flags: Record<string, unknown>,
+  route: RouteDefinition
+): void {
+  for (const def of route.flags ?? []) {
+    if (def.default !== undefined && (flags[def.name] === undefined || flags[def.name] === "")) {
+      flags[def.name] = def.default;
+    }
+  }
+}
+
+/**
+ * Fill caller-provided fallbacks (shell sticky defaults, profile settings)
+ * into flags the route declares, plus the global current_organization_id.
+ * Keeps e.g. a sticky --mode from leaking into routes that take no --mode.
+ */
+export function applyFlagFallbacks(
+  flags: Record<string, unknown>,
+  fallbacks: Record<string, unknown>,
+  route: RouteDefinition | undefined
+): void {
+  const declared = new Set(route?.flags?.map((f) => f.name) ?? []);
+  for (const [name, value] of Object.entries(fallbacks)) {
+    if (value === undefined || flags[name] !== undefined) continue;
+    if (declared.has(name) || name === "current_organization_id") {
+      flags[name] = value;
+    }
+  }
+}
+
+/**
+ * Coerce a raw flag value to the declared type.
+ * `ok` is false when the value can't be represented as that type.
+ */
+function coerceValue(value: unknown, def: FlagDefinition): { ok: boolean; value?: unknown } {
+  switch (def.type) {
+    case "string":
+      if (typeof value === "string") return { ok: true, value };
+      if (typeof value === "number" || typeof value === "boolean") {
+        return { ok: true, value: String(value) };
+      }
+      return { ok: false };
+    case "number":
+      if (typeof value === "number" && Number.isFinite(value)) return { ok: true, value };
+      if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) {
+        return { ok: true, value: Number(value) };
+      }
+      return { ok: false };
+    case "boolean":
+      if (typeof value === "boolean") return { ok: true, value };
+      if (value === "true") return { ok: true, value: true };
+      if (value === "false") return { ok: true, value: false };
+      return { ok: false };
+    case "array":
+      return Array.isArray(value) ? { ok: true, value } : { ok: false };
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value)
+        ? { ok: true, value }
+        : { ok: false };
+  }
+}
+
+/**
+ * Validate flags against the route's declared schema.
+ * Coerces values in place (e.g. "10" -> 10 for number flags) and
+ * returns a list of human-readable errors (empty when valid).
+ */
+export function validateFlags(
+  flags: Record<string, unknown>,
+  route: RouteDefinition
+): string[] {
+  const errors: string[] = [];
+
+  for (const def of route.flags ?? []) {
+    const raw = flags[def.name];
+
+    if (raw === undefined || raw === null || raw === "") {
+      if (def.required) errors.push(`Missing required flag --${def.name}`);
+      continue;
+    }
+
+    const coerced = coerceValue(raw, def);
+    if (!coerced.ok) {
+      errors.push(`Invalid value for --${def.name}: expected ${def.type}, got ${JSON.stringify(raw)}`);
+      continue;
+    }
+
+    if (def.enum && !def.enum.includes(String(coerced.value))) {
+      errors.push(
+        `Invalid value for --${def.name}: ${JSON.stringify(raw)}. Expected one of: ${def.enum.join(", ")}`
+      );
+      continue;
+    }
+
+    flags[def.name] = coerced.value;
+  }
+
+  return errors;
+}
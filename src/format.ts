@@ -0,0 +1,134 @@
+/**
+ * Output formatting for dispatch results.
+ *
+ * Formats:
+ *   json   pretty-printed JSON (default)
+ *   raw    strings as-is, everything else as compact JSON
+ *   jsonl  one compact JSON document per list item
+ *   csv    header row + one row per list item
+ *   table  aligned columns for terminals
+ */
+
+import { extractItems } from "./pagination.ts";
+
+export const OUTPUT_FORMATS = ["json", "raw", "jsonl", "csv", "table"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface FormatOptions {
+  output?: OutputFormat;
+  /** Columns to include for table/csv output. Supports dot paths (e.g. counterparty.holder_name). */
+  columns?: string[];
+}
+
+const MAX_CELL_WIDTH = 48;
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return typeof value === "string" && (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Read a (possibly dotted) path from an object.
+ */
+function getPath(obj: unknown, path: string): unknown {
+  let current: unknown = obj;
+  for (const part of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Rows for tabular output: list items, or a single object as one row.
+ */
+function toRows(data: unknown): Record<string, unknown>[] {
+  const items = extractItems(data) ?? (data && typeof data === "object" ? [data] : [data]);
+  return items.map((item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? (item as Record<string, unknown>)
+      : { value: item }
+  );
+}
+
+/**
+ * Column names: explicit selection, or the union of top-level keys in order of appearance.
+ */
+function resolveColumns(rows: Record<string, unknown>[], columns?: string[]): string[] {
+  if (columns && columns.length > 0) return columns;
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) seen.add(key);
+  }
+  return [...seen];
+}
+
+function formatTable(data: unknown, columns?: string[]): string {
+  const rows = toRows(data);
+  if (rows.length === 0) return "(no results)";
+
+  const cols = resolveColumns(rows, columns);
+  const cells = rows.map((row) =>
+    cols.map((col) => {
+      const text = cellText(getPath(row, col)).replace(/\s+/g, " ");
+      return text.length > MAX_CELL_WIDTH ? `${text.slice(0, MAX_CELL_WIDTH - 1)}…` : text;
+    })
+  );
+
+  const widths = cols.map((col, i) =>
+    Math.max(col.length, ...cells.map((row) => row[i]!.length))
+  );
+  const renderRow = (values: string[]) =>
+    values.map((v, i) => v.padEnd(widths[i]!)).join("  ").trimEnd();
+
+  return [
+    renderRow(cols.map((c) => c.toUpperCase())),
+    renderRow(widths.map((w) => "-".repeat(w))),
+    ...cells.map(renderRow),
+  ].join("\n");
+}
+
+function csvEscape(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCsv(data: unknown, columns?: string[]): string {
+  const rows = toRows(data);
+  const cols = resolveColumns(rows, columns);
+  const lines = [cols.map(csvEscape).join(",")];
+  for (const row of rows) {
+    lines.push(cols.map((col) => csvEscape(cellText(getPath(row, col)))).join(","));
+  }
+  return lines.join("\n");
+}
+
+function formatJsonl(data: unknown): string {
+  const items = extractItems(data) ?? [data];
+  return items.map((item) => JSON.stringify(item)).join("\n");
+}
+
+/**
+ * Format any data as CLI-friendly text output.
+ */
+export function formatOutput(data: unknown, options: FormatOptions = {}): string {
+  if (data === undefined || data === null) return "";
+
+  switch (options.output ?? "json") {
+    case "raw":
+      return typeof data === "string" ? data : JSON.stringify(data);
+    case "jsonl":
+      return formatJsonl(data);
+    case "csv":
+      return formatCsv(data, options.columns);
+    case "table":
+      return formatTable(data, options.columns);
+    case "json":
+      if (typeof data === "string") return data;
+      return JSON.stringify(data, null, 2);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Seed data for the mock API server.
+ *
+ * Fixtures are keyed by route resource ("transfers", "accounts", ...).
+ * A seed file (`fintoc mock-server --seed fixtures.json`) uses the same
+ * shape and replaces the default records of every resource it lists.
+ * Records without an id get a deterministic one when loaded.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+
+export type MockRecord = Record<string, unknown>;
+export type MockFixtures = Record<string, MockRecord[]>;
+
+/** ID prefixes per resource; others use the resource initials. */
+export const ID_PREFIXES: Record<string, string> = {
+  transfers: "tr",
+  "transfer-intents": "ti",
+  "transfer-batches": "tb",
+  accounts: "acc",
+  movements: "mov",
+  recipients: "rcp",
+  "webhook-endpoints": "we",
+  "webhook-events": "evt",
+  payments: "pi",
+  refunds: "ref",
+  "api-keys": "key",
+  organizations: "org",
+  banks: "bank",
+  exports: "exp",
+};
+
+const COUNTERPARTY = {
+  holder_name: "Juan Pérez",
+  holder_id: "12.345.678-5",
+  institution_id: "cl_banco_estado",
+  type: "checking_account",
+  account_number: "123456789",
+};
+
+export const DEFAULT_FIXTURES: MockFixtures = {
+  user: [
+    { id: "usr_000001", email: "dev@example.com", name: "Mock", last_name: "User", default_organization_id: "org_000001" },
+  ],
+  organizations: [{ id: "org_000001", name: "Mock Org SpA", country: "cl" }],
+  accounts: [
+    { id: "acc_000001", mode: "test", description: "Cuenta operacional", currency: "CLP", available_balance: 150_000_000, status: "active" },
+    { id: "acc_000002", mode: "test", description: "Cuenta pagos", currency: "CLP", available_balance: 25_000_000, status: "active" },
+    { id: "acc_000003", mode: "live", description: "Cuenta principal", currency: "CLP", available_balance: 980_000_000, status: "active" },
+  ],
+  movements: [
+    { id: "mov_000001", account_id: "acc_000001", mode: "test", amount: 5_000_000, currency: "CLP", direction: "inbound" },
+    { id: "mov_000002", account_id: "acc_000001", mode: "test", amount: -1_200_000, currency: "CLP", direction: "outbound" },
+  ],
+  transfers: [
+    { id: "tr_000001", mode: "test", account_id: "acc_000001", amount: 1_200_000, currency: "CLP", direction: "outbound", status: "succeeded", counterparty: COUNTERPARTY },
+    { id: "tr_000002", mode: "test", account_id: "acc_000001", amount: 5_000_000, currency: "CLP", direction: "inbound", status: "succeeded", counterparty: COUNTERPARTY },
+    { id: "tr_000003", mode: "test", account_id: "acc_000002", amount: 300_000, currency: "CLP", direction: "outbound", status: "failed", counterparty: COUNTERPARTY },
+  ],
+  "transfer-intents": [],
+  recipients: [{ id: "rcp_000001", mode: "test", ...COUNTERPARTY }],
+  "webhook-endpoints": [
+    { id: "we_000001", mode: "test", name: "Notificaciones", url: "https://example.com/webhooks", enabled_events: ["transfer.succeeded"], disabled: false },
+  ],
+  banks: [
+    { id: "cl_banco_estado", name: "Banco Estado", country: "cl", code: "012" },
+    { id: "cl_banco_de_chile", name: "Banco de Chile", country: "cl", code: "001" },
+    { id: "cl_banco_santander", name: "Banco Santander", country: "cl", code: "037" },
+    { id: "mx_bbva", name: "BBVA México", country: "mx", code: "012" },
+    { id: "mx_banorte", name: "Banorte", country: "mx", code: "072" },
+  ],
+};
+
+/**
+ * Load a seed file and merge it over the defaults.
+ */
+export function loadFixtures(seedPath?: string): MockFixtures {
+  if (!seedPath) return structuredClone(DEFAULT_FIXTURES);
+  if (!existsSync(seedPath)) {
+    throw new Error(`Seed file not found: ${seedPath}`);
+  }
+
+  const seed = JSON.parse(readFileSync(seedPath, "utf8")) as unknown;
+  if (!seed || typeof seed !== "object" || Array.isArray(seed)) {
+    throw new Error(`Invalid seed file ${seedPath}: expected an object of resource -> records[]`);
+  }
+  for (const [resource, records] of Object.entries(seed)) {
+    if (!Array.isArray(records)) {
+      throw new Error(`Invalid seed file ${seedPath}: "${resource}" must be an array of records`);
+    }
+  }
+  return { ...structuredClone(DEFAULT_FIXTURES), ...(seed as MockFixtures) };
+}
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { DEFAULT_MOCK_OTP, MOCK_SESSION_TOKEN, startMockServer } from "./server.ts";
+import { loadFixtures } from "./fixtures.ts";
+
+const INTENTS_PATH = "/internal/v2/dashboard/transfer_intents";
+
+let server: ReturnType<typeof startMockServer> | undefined;
+
+afterEach(() => {
+  server?.stop(true);
+  server = undefined;
+});
+
+function start() {
+  server = startMockServer({ port: 0, fixtures: loadFixtures() });
+  return server;
+}
+
+async function post(path: string, body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  const response = await fetch(new URL(path, server!.url), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Session-Token": MOCK_SESSION_TOKEN, ...headers },
+    body: JSON.stringify(body),
+  });
+  return { response, body: (await response.json()) as Record<string, unknown> };
+}
+
+const intent = { account_id: "acc_000001", amount: 1000, currency: "CLP", otp_code: DEFAULT_MOCK_OTP };
+
+describe("startMockServer", () => {
+  test("gives the same IDs and timestamps after a restart", async () => {
+    const runs: Record<string, unknown>[] = [];
+    for (let run = 0; run < 2; run++) {
+      start();
+      runs.push((await post(INTENTS_PATH, intent)).body);
+      server!.stop(true);
+    }
+    expect(runs[0]).toMatchObject({ id: "ti_000001", transfer_id: "tr_000004" });
+    expect(runs[1]).toEqual(runs[0]!);
+  });
+
+  test("requires the session token", async () => {
+    start();
+    const { response } = await post(INTENTS_PATH, intent, { "X-Session-Token": "wrong" });
+    expect(response.status).toBe(401);
+  });
+
+  test("requires a matching OTP for money-moving routes", async () => {
+    start();
+    const { otp_code: _otp, ...withoutOtp } = intent;
+
+    const missing = await post(INTENTS_PATH, withoutOtp);
+    expect(missing.response.status).toBe(403);
+    expect(missing.body).toMatchObject({ error: { code: "mfa_required" } });
+
+    const wrong = await post(INTENTS_PATH, { ...intent, otp_code: "000000" });
+    expect(wrong.response.status).toBe(403);
+    expect(wrong.body).toMatchObject({ error: { code: "invalid_otp_code" } });
+
+    expect((await post(INTENTS_PATH, intent)).response.status).toBe(201);
+  });
+
+  test("replays the first response for a repeated Idempotency-Key", async () => {
+    start();
+    const first = await post(INTENTS_PATH, intent, { "Idempotency-Key": "key-1" });
+    const again = await post(INTENTS_PATH, intent, { "Idempotency-Key": "key-1" });
+    expect(first.response.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(again.response.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(again.response.status).toBe(first.response.status);
+    expect(again.body).toEqual(first.body);
+
+    const other = await post(INTENTS_PATH, intent, { "Idempotency-Key": "key-2" });
+    expect(other.body.id).not.toBe(first.body.id);
+  });
+
+  test("does not store failed attempts under the key", async () => {
+    start();
+    const failed = await post(INTENTS_PATH, { ...intent, otp_code: "000000" }, { "Idempotency-Key": "key-1" });
+    expect(failed.response.status).toBe(403);
+    const retried = await post(INTENTS_PATH, intent, { "Idempotency-Key": "key-1" });
+    expect(retried.response.status).toBe(201);
+    expect(retried.response.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+});
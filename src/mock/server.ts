@@ -0,0 +1,448 @@
+/**
+ * Mock Fintoc dashboard API: `fintoc mock-server`.
+ *
+ * Serves every path in the route table from an in-memory store so the
+ * CLI, /chat and the dashboard frontend can run without Rails.
+ * Resources with real behaviour (transfers, transfer intents, accounts,
+ * recipients, webhook endpoints, sessions) have dedicated handlers;
+ * every other route gets generic list/show/create/update/delete
+ * semantics based on its method and path.
+ *
+ * Sessions: POST /sessions sets session_token=MOCK_SIGNED_TOKEN and
+ * API calls must send X-Session-Token: MOCK_SESSION_TOKEN (401 otherwise).
+ * Money-moving routes require --otp_code to match the configured OTP.
+ * Exports turn "completed" after a few polls; the file is served from
+ * /mock/exports/<id>.csv.
+ */
+
+import { routes, pathParams } from "../routes.ts";
+import type { RouteDefinition } from "../routes.ts";
+import type { MockFixtures, MockRecord } from "./fixtures.ts";
+import {
+  createMockState,
+  collection,
+  findRecord,
+  insertRecord,
+  removeRecord,
+  type MockState,
+} from "./state.ts";
+
+export const MOCK_SESSION_TOKEN = "mock_session_token";
+export const MOCK_SIGNED_TOKEN = "mock_signed_session_token";
+export const DEFAULT_MOCK_OTP = "123456";
+
+const RAW_TOKEN_PATH = "/internal/v1/dashboard/sessions/raw_token";
+
+/** Routes reachable without a session. */
+const PUBLIC_ROUTES = new Set(["sessions.create", "user.create"]);
+
+/** Minimal valid PDF served for binary (receipt/invoice) routes. */
+const FAKE_PDF = "%PDF-1.4\n1 0 obj<<>>endobj\ntrailer<<>>\n%%EOF\n";
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, X-Session-Token, Idempotency-Key",
+};
+
+export interface MockServerOptions {
+  port: number;
+  fixtures: MockFixtures;
+  otpCode?: string;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+interface HandlerContext {
+  state: MockState;
+  key: string;
+  route: RouteDefinition;
+  resource: string;
+  action: string;
+  /** The :id placeholder, or the only placeholder of the path */
+  id?: string;
+  /** All path placeholders by name */
+  params: Record<string, string>;
+  query: Record<string, unknown>;
+  body: Record<string, unknown>;
+  otpCode: string;
+}
+
+type Handler = (ctx: HandlerContext) => MockResponse;
+
+// ── Route matching ────────────────────────────────────────────────────────────
+
+interface CompiledRoute {
+  key: string;
+  route: RouteDefinition;
+  pattern: RegExp;
+  /** Placeholder names, in path order */
+  params: string[];
+}
+
+function compileRoutes(): CompiledRoute[] {
+  return Object.entries(routes)
+    .map(([key, route]) => {
+      const source = route.path
+        .split("/")
+        .map((segment) => (segment.startsWith(":") ? "([^/]+)" : segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+        .join("/");
+      return { key, route, pattern: new RegExp(`^${source}$`), params: pathParams(route.path) };
+    })
+    // Static paths ("/transfers/metadata_keys") win over parameterized ones ("/transfers/:id")
+    .sort((a, b) => a.params.length - b.params.length);
+}
+
+function parseQuery(params: URLSearchParams): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+  for (const [rawKey, value] of params) {
+    if (rawKey.endsWith("[]")) {
+      const key = rawKey.slice(0, -2);
+      query[key] = [...((query[key] as unknown[] | undefined) ?? []), value];
+    } else {
+      query[rawKey] = value;
+    }
+  }
+  return query;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function json(status: number, body?: unknown): MockResponse {
+  return { status, body };
+}
+
+function notFound(resource: string, id?: string): MockResponse {
+  return json(404, { error: { code: "not_found", message: `No ${resource} with id ${id}` } });
+}
+
+function modeOf(ctx: HandlerContext): string {
+  return String(ctx.body.mode ?? ctx.query.mode ?? "test");
+}
+
+/**
+ * Require a matching OTP for money-moving operations.
+ */
+function checkOtp(ctx: HandlerContext): MockResponse | null {
+  const code = ctx.body.otp_code ?? ctx.query.otp_code;
+  if (code === undefined) {
+    return json(403, { error: { code: "mfa_required", message: "This action requires --otp_code" } });
+  }
+  if (String(code) !== ctx.otpCode) {
+    return json(403, { error: { code: "invalid_otp_code", message: "Invalid OTP code" } });
+  }
+  return null;
+}
+
+function filterRecords(records: MockRecord[], query: Record<string, unknown>): MockRecord[] {
+  return records.filter((record) =>
+    ["mode", "status", "account_id"].every(
+      (field) => query[field] === undefined || record[field] === undefined || record[field] === query[field]
+    )
+  );
+}
+
+function paginate(records: MockRecord[], route: RouteDefinition, query: Record<string, unknown>): MockRecord[] {
+  if (route.pagination === "cursor") {
+    const limit = Number(query.limit ?? 10);
+    const start = query.starting_after ? records.findIndex((r) => r.id === query.starting_after) + 1 : 0;
+    return records.slice(start, start + limit);
+  }
+  if (route.pagination === "page") {
+    const perPage = Number(query.per_page ?? 20);
+    const page = Number(query.page ?? 1);
+    return records.slice((page - 1) * perPage, page * perPage);
+  }
+  return records;
+}
+
+function list(ctx: HandlerContext, resource = ctx.resource, extra: Record<string, unknown> = {}): MockResponse {
+  const records = filterRecords(collection(ctx.state, resource), { ...ctx.query, ...extra });
+  return json(200, paginate(records, ctx.route, ctx.query));
+}
+
+function bodyFields(ctx: HandlerContext): MockRecord {
+  const { otp_code: _otp, current_organization_id: _org, ...fields } = ctx.body;
+  return fields;
+}
+
+// ── Generic CRUD ──────────────────────────────────────────────────────────────
+
+const generic: Handler = (ctx) => {
+  const { state, route, resource, action, id } = ctx;
+  const endsWithId = /:\w+$/.test(route.path);
+
+  if (id !== undefined && endsWithId) {
+    const record = findRecord(state, resource, id);
+    switch (route.method) {
+      case "GET":
+        return record ? json(200, record) : notFound(resource, id);
+      case "DELETE":
+        return removeRecord(state, resource, id) ? json(200, { id, deleted: true }) : notFound(resource, id);
+      default:
+        if (!record) return notFound(resource, id);
+        Object.assign(record, bodyFields(ctx));
+        return json(200, record);
+    }
+  }
+
+  if (id !== undefined) {
+    // Member action, e.g. POST /accounts/:id/block or GET /links/:id/bank_accounts
+    if (route.method === "GET") {
+      return route.pagination || action.startsWith("list") ? json(200, []) : json(200, {});
+    }
+    const record = findRecord(state, resource, id);
+    return record ? json(200, { ...record, ...bodyFields(ctx) }) : json(200, { id, ...bodyFields(ctx) });
+  }
+
+  if (route.method === "GET") {
+    return route.pagination || action.startsWith("list") ? list(ctx) : json(200, {});
+  }
+  if (route.method === "POST" && action === "create") {
+    return json(201, insertRecord(state, resource, { mode: modeOf(ctx), ...bodyFields(ctx) }));
+  }
+  return json(200, bodyFields(ctx));
+};
+
+// ── Resource handlers ─────────────────────────────────────────────────────────
+
+/** Exports report "processing" for this many polls, then "completed". */
+const EXPORT_POLLS_UNTIL_READY = 2;
+const EXPORT_FILE_PATH = "/mock/exports/";
+const exportPolls = new WeakMap<MockRecord, number>();
+
+const createExport: Handler = (ctx) =>
+  json(201, insertRecord(ctx.state, "exports", { ...bodyFields(ctx), mode: modeOf(ctx), source: ctx.action.replace(/^create-?/, "") || "payments", status: "processing" }));
+
+const showExport: Handler = (ctx) => {
+  const record = findRecord(ctx.state, "exports", ctx.id!);
+  if (!record) return notFound("exports", ctx.id);
+  const polls = (exportPolls.get(record) ?? 0) + 1;
+  exportPolls.set(record, polls);
+  if (polls > EXPORT_POLLS_UNTIL_READY && record.status === "processing") {
+    Object.assign(record, { status: "completed", url: `${EXPORT_FILE_PATH}${record.id}.csv` });
+  }
+  return json(200, record);
+};
+
+/** CSV body for a completed export: the exported resource's records as rows. */
+function exportFile(state: MockState, id: string): Response {
+  const record = findRecord(state, "exports", id);
+  if (!record || record.status !== "completed") {
+    return toResponse(json(404, { error: { code: "not_found", message: `No file for export ${id}` } }));
+  }
+  const source = record.source === "account-movements" ? "movements" : String(record.source);
+  const rows = filterRecords(collection(state, source), { mode: record.mode });
+  const columns = ["id", "amount", "currency", "status", "created_at"];
+  const csv = [columns.join(","), ...rows.map((row) => columns.map((c) => String(row[c] ?? "")).join(","))].join("\n");
+  return new Response(`${csv}\n`, {
+    headers: { ...CORS_HEADERS, "Content-Type": "text/csv", "Content-Disposition": `attachment; filename="${source}-${id}.csv"` },
+  });
+}
+
+const HANDLERS: Record<string, Handler> = {
+  "sessions.create": () => ({
+    status: 201,
+    body: {},
+    headers: { "Set-Cookie": `session_token=${MOCK_SIGNED_TOKEN}; Path=/; HttpOnly` },
+  }),
+  "sessions.validate": () => json(204),
+  "sessions.activate": () => json(200, { status: "active" }),
+  "sessions.expire": () => json(200, {}),
+  // Real time rather than the fake clock: the CLI compares this with Date.now()
+  "sessions.extend": () => json(200, { expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString() }),
+  "sessions.ping": () => json(200, { status: "ok" }),
+
+  "user.show": (ctx) => json(200, collection(ctx.state, "user")[0] ?? {}),
+  "user.create": (ctx) => json(200, collection(ctx.state, "user")[0] ?? {}),
+
+  "accounts.total-balance": (ctx) => {
+    const accounts = filterRecords(collection(ctx.state, "accounts"), { mode: modeOf(ctx) });
+    const total = accounts.reduce((sum, account) => sum + Number(account.available_balance ?? 0), 0);
+    return json(200, { total_balance: total, currency: "CLP" });
+  },
+  "accounts.movements": (ctx) =>
+    findRecord(ctx.state, "accounts", ctx.id!) ? list(ctx, "movements", { account_id: ctx.id }) : notFound("accounts", ctx.id),
+  "accounts.movement": (ctx) => {
+    const movement = findRecord(ctx.state, "movements", ctx.id!);
+    return movement && movement.account_id === ctx.params.account_id ? json(200, movement) : notFound("movements", ctx.id);
+  },
+
+  "transfer-intents.create": (ctx) => {
+    const otpError = checkOtp(ctx);
+    if (otpError) return otpError;
+
+    const account = findRecord(ctx.state, "accounts", String(ctx.body.account_id));
+    if (!account) return json(422, { error: { code: "invalid_account", message: `Unknown account ${ctx.body.account_id}` } });
+
+    const amount = Number(ctx.body.amount_cents ?? ctx.body.amount ?? 0);
+    const currency = ctx.body.amount_currency ?? ctx.body.currency ?? account.currency;
+    if (!(amount > 0)) return json(422, { error: { code: "invalid_amount", message: "amount must be positive" } });
+    if (amount > Number(account.available_balance ?? 0)) {
+      return json(422, { error: { code: "insufficient_funds", message: "Insufficient funds" } });
+    }
+
+    account.available_balance = Number(account.available_balance) - amount;
+    const common = { mode: modeOf(ctx), account_id: account.id, amount, currency, counterparty: ctx.body.counterparty, comment: ctx.body.comment };
+    const transfer = insertRecord(ctx.state, "transfers", { ...common, direction: "outbound", status: "succeeded" });
+    return json(201, insertRecord(ctx.state, "transfer-intents", { ...common, status: "succeeded", transfer_id: transfer.id }));
+  },
+
+  "transfer-batches.create": (ctx) => {
+    const otpError = checkOtp(ctx);
+    if (otpError) return otpError;
+    const rows = Array.isArray(ctx.body.rows) ? ctx.body.rows : [];
+    return json(201, insertRecord(ctx.state, "transfer-batches", { ...bodyFields(ctx), mode: modeOf(ctx), rows_count: rows.length, status: "pending" }));
+  },
+
+  "transfers.return": (ctx) => {
+    const otpError = checkOtp(ctx);
+    if (otpError) return otpError;
+    const transfer = findRecord(ctx.state, "transfers", String(ctx.body.transfer_id));
+    if (!transfer) return notFound("transfers", String(ctx.body.transfer_id));
+    transfer.status = "return_pending";
+    return json(200, transfer);
+  },
+  "transfers.simulate-receive": (ctx) =>
+    json(201, insertRecord(ctx.state, "transfers", { ...bodyFields(ctx), mode: "test", direction: "inbound", status: "succeeded" })),
+  "transfers.metadata-keys": (ctx) => {
+    const keys = new Set(collection(ctx.state, "transfers").flatMap((t) => Object.keys((t.metadata as object | undefined) ?? {})));
+    return json(200, [...keys]);
+  },
+  "transfers.receipt": (ctx) => {
+    const transfer = findRecord(ctx.state, "transfers", ctx.id ?? "");
+    if (!transfer) return notFound("transfers", ctx.id ?? "");
+    return { ...json(200, transfer), headers: { "Content-Disposition": `attachment; filename="receipt-${transfer.id}.pdf"` } };
+  },
+
+  "refunds.create": (ctx) => {
+    const otpError = checkOtp(ctx);
+    if (otpError) return otpError;
+    return json(201, insertRecord(ctx.state, "refunds", { ...bodyFields(ctx), mode: modeOf(ctx), status: "pending" }));
+  },
+
+  "webhook-endpoints.secret": (ctx) =>
+    findRecord(ctx.state, "webhook-endpoints", ctx.id!) ? json(200, { secret: `whsec_${ctx.id}` }) : notFound("webhook-endpoints", ctx.id),
+  "webhook-endpoints.test": (ctx) =>
+    findRecord(ctx.state, "webhook-endpoints", ctx.id!)
+      ? json(200, { status: "sent", event: ctx.body.event })
+      : notFound("webhook-endpoints", ctx.id),
+
+  "otps.validate": (ctx) =>
+    String(ctx.body.code ?? ctx.body.otp_code) === ctx.otpCode ? json(200, { valid: true }) : json(422, { valid: false }),
+
+  "exports.create": createExport,
+  "exports.create-transfers": createExport,
+  "exports.create-transfer-intents": createExport,
+  "exports.create-account-movements": createExport,
+  "exports.show": showExport,
+  "exports.show-v2": showExport,
+};
+
+// ── Server ────────────────────────────────────────────────────────────────────
+
+function isAuthenticated(req: Request): boolean {
+  if (req.headers.get("X-Session-Token") === MOCK_SESSION_TOKEN) return true;
+  return (req.headers.get("Cookie") ?? "").includes(`session_token=${MOCK_SIGNED_TOKEN}`);
+}
+
+function toResponse(result: MockResponse, route?: RouteDefinition): Response {
+  const headers = { ...CORS_HEADERS, ...result.headers };
+  if (result.status === 204 || result.body === undefined) {
+    return new Response(null, { status: result.status, headers });
+  }
+  if (route?.responseType === "arraybuffer" && result.status < 300) {
+    return new Response(FAKE_PDF, { status: result.status, headers: { ...headers, "Content-Type": "application/pdf" } });
+  }
+  return Response.json(result.body, { status: result.status, headers });
+}
+
+/**
+ * Start the mock server. Returns the Bun server so callers can stop it.
+ */
+export function startMockServer(options: MockServerOptions) {
+  const state = createMockState(options.fixtures);
+  const compiled = compileRoutes();
+  const otpCode = options.otpCode ?? DEFAULT_MOCK_OTP;
+
+  return Bun.serve({
+    port: options.port,
+    async fetch(req) {
+      const url = new URL(req.url);
+      if (req.method === "OPTIONS") return new Response(null, { status: 204, headers: CORS_HEADERS });
+
+      if (url.pathname === RAW_TOKEN_PATH) {
+        return isAuthenticated(req)
+          ? toResponse(json(200, { token: MOCK_SESSION_TOKEN }))
+          : toResponse(json(401, { error: { code: "unauthorized" } }));
+      }
+
+      if (url.pathname.startsWith(EXPORT_FILE_PATH)) {
+        if (!isAuthenticated(req)) return toResponse(json(401, { error: { code: "unauthorized" } }));
+        return exportFile(state, url.pathname.slice(EXPORT_FILE_PATH.length).replace(/\.csv$/, ""));
+      }
+
+      const match = compiled
+        .filter((c) => c.route.method === req.method)
+        .map((c) => ({ ...c, groups: url.pathname.match(c.pattern) }))
+        .find((c) => c.groups);
+      if (!match) {
+        return toResponse(json(404, { error: { code: "no_route", message: `No route for ${req.method} ${url.pathname}` } }));
+      }
+
+      if (!PUBLIC_ROUTES.has(match.key) && !isAuthenticated(req)) {
+        return toResponse(json(401, { error: { code: "unauthorized", message: "Invalid or expired session" } }));
+      }
+
+      const idempotencyKey = match.route.idempotent ? req.headers.get("Idempotency-Key") : null;
+      const replayed = idempotencyKey ? state.idempotent.get(`${match.key}:${idempotencyKey}`) : undefined;
+      if (replayed) return toResponse({ ...replayed, headers: { "Idempotent-Replayed": "true" } });
+
+      const text = req.method === "GET" ? "" : await req.text();
+      let parsed: unknown = {};
+      try {
+        parsed = text ? JSON.parse(text) : {};
+      } catch {
+        return toResponse(json(400, { error: { code: "invalid_json", message: "Request body is not valid JSON" } }));
+      }
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        return toResponse(json(400, { error: { code: "invalid_body", message: "Request body must be a JSON object" } }));
+      }
+      const body = parsed as Record<string, unknown>;
+
+      let params: Record<string, string>;
+      try {
+        params = Object.fromEntries(
+          match.params.map((name, index) => [name, decodeURIComponent(match.groups![index + 1]!)])
+        );
+      } catch {
+        return toResponse(json(400, { error: { code: "invalid_path", message: `Malformed path ${url.pathname}` } }));
+      }
+      const [resource, action] = match.key.split(".") as [string, string];
+      const id = params.id ?? (match.params.length === 1 ? params[match.params[0]!] : undefined);
+      const handler = HANDLERS[match.key] ?? generic;
+      const result = handler({
+        state,
+        key: match.key,
+        route: match.route,
+        resource,
+        action,
+        id,
+        params,
+        query: parseQuery(url.searchParams),
+        body,
+        otpCode,
+      });
+
+      // Only successful operations are replayed; a failed OTP can be retried with the same key
+      if (idempotencyKey && result.status < 300) {
+        state.idempotent.set(`${match.key}:${idempotencyKey}`, { status: result.status, body: result.body });
+      }
+      return toResponse(result, match.route);
+    },
+  });
+}
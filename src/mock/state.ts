@@ -0,0 +1,81 @@
+/**
+ * In-memory resource store for the mock API server.
+ *
+ * IDs are deterministic: "<prefix>_<counter>" with a zero-padded counter
+ * per prefix, continuing after the highest seeded id. Timestamps come
+ * from a fake clock that starts at MOCK_EPOCH and ticks one second per
+ * created record, so the same seed and requests always give the same data.
+ */
+
+import { ID_PREFIXES } from "./fixtures.ts";
+import type { MockFixtures, MockRecord } from "./fixtures.ts";
+
+const MOCK_EPOCH = Date.parse("2024-01-01T00:00:00Z");
+
+export interface MockState {
+  collections: Record<string, MockRecord[]>;
+  counters: Record<string, number>;
+  tick: number;
+  /** Responses already sent for an Idempotency-Key */
+  idempotent: Map<string, { status: number; body: unknown }>;
+}
+
+function prefixFor(resource: string): string {
+  return ID_PREFIXES[resource] ?? resource.split("-").map((part) => part[0]).join("");
+}
+
+function formatId(prefix: string, n: number): string {
+  return `${prefix}_${String(n).padStart(6, "0")}`;
+}
+
+export function createMockState(fixtures: MockFixtures): MockState {
+  const state: MockState = { collections: {}, counters: {}, tick: 0, idempotent: new Map() };
+
+  for (const [resource, records] of Object.entries(fixtures)) {
+    const prefix = prefixFor(resource);
+    // Continue numbering after the highest seeded id
+    for (const record of records) {
+      const match = typeof record.id === "string" && record.id.match(new RegExp(`^${prefix}_(\\d+)$`));
+      if (match) state.counters[prefix] = Math.max(state.counters[prefix] ?? 0, Number(match[1]));
+    }
+    state.collections[resource] = records.map((record) => ({
+      ...record,
+      id: record.id ?? nextId(state, resource),
+      created_at: record.created_at ?? now(state),
+    }));
+  }
+  return state;
+}
+
+export function nextId(state: MockState, resource: string): string {
+  const prefix = prefixFor(resource);
+  state.counters[prefix] = (state.counters[prefix] ?? 0) + 1;
+  return formatId(prefix, state.counters[prefix]);
+}
+
+/** Current fake time; advances one second per call. */
+export function now(state: MockState): string {
+  return new Date(MOCK_EPOCH + state.tick++ * 1000).toISOString();
+}
+
+export function collection(state: MockState, resource: string): MockRecord[] {
+  return (state.collections[resource] ??= []);
+}
+
+export function findRecord(state: MockState, resource: string, id: string): MockRecord | undefined {
+  return collection(state, resource).find((record) => record.id === id);
+}
+
+export function insertRecord(state: MockState, resource: string, data: MockRecord): MockRecord {
+  const record = { ...data, id: nextId(state, resource), created_at: now(state) };
+  collection(state, resource).push(record);
+  return record;
+}
+
+export function removeRecord(state: MockState, resource: string, id: string): boolean {
+  const records = collection(state, resource);
+  const index = records.findIndex((record) => record.id === id);
+  if (index === -1) return false;
+  records.splice(index, 1);
+  return true;
+}
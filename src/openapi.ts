@@ -0,0 +1,335 @@
+/**
+ * OpenAPI 3.1 document generated from the route table.
+ *
+ * Describes two servers:
+ * - the Bun server (index.ts): /cli, /login and /chat, authenticated
+ *   with "Authorization: Bearer <token>"
+ * - the Rails dashboard API that routes.ts proxies, authenticated with
+ *   the X-Session-Token header. These paths carry their own `servers`
+ *   entry pointing at config.api.host.
+ *
+ * Served at GET /openapi.json and printed by `fintoc spec`.
+ */
+
+import { routes, pathParams } from "./routes.ts";
+import type { FlagDefinition, FlagType, RouteDefinition } from "./routes.ts";
+import { flagLocation } from "./dispatcher.ts";
+import { OUTPUT_FORMATS } from "./format.ts";
+import { config } from "./cli/config.ts";
+
+type JsonSchema = Record<string, unknown>;
+
+interface Parameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required?: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  summary?: string;
+  tags: string[];
+  parameters?: Parameter[];
+  requestBody?: Record<string, unknown>;
+  responses: Record<string, unknown>;
+  security?: Record<string, string[]>[];
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers: { url: string; description?: string }[];
+  paths: Record<string, Record<string, unknown>>;
+  components: Record<string, Record<string, unknown>>;
+}
+
+export interface OpenApiOptions {
+  /** URL of the Bun server; defaults to http://localhost:$PORT */
+  serverUrl?: string;
+  /** URL of the Rails API; defaults to config.api.host */
+  apiUrl?: string;
+}
+
+const JSON_TYPES: Record<FlagType, JsonSchema> = {
+  string: { type: "string" },
+  number: { type: "number" },
+  boolean: { type: "boolean" },
+  array: { type: "array", items: {} },
+  object: { type: "object" },
+};
+
+const ERROR_RESPONSE = {
+  description: "Error",
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+};
+
+function flagSchema(def: FlagDefinition): JsonSchema {
+  return {
+    ...JSON_TYPES[def.type],
+    ...(def.enum && { enum: [...def.enum] }),
+    ...(def.default !== undefined && { default: def.default }),
+  };
+}
+
+/** "webhook-endpoints" + "list-events" -> "webhookEndpointsListEvents" */
+function operationId(key: string): string {
+  return key
+    .split(/[.\-_]/)
+    .map((part, index) => (index === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1)))
+    .join("");
+}
+
+function routeOperation(key: string, route: RouteDefinition): Operation {
+  const [resource = key] = key.split(".");
+  const placeholders = pathParams(route.path);
+  const parameters: Parameter[] = placeholders.map((name) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+
+  const bodyProperties: Record<string, JsonSchema> = {};
+  const bodyRequired: string[] = [];
+  for (const def of route.flags ?? []) {
+    if (placeholders.includes(def.name)) continue;
+    if (flagLocation(def.name, route) === "query") {
+      parameters.push({
+        name: def.name,
+        in: "query",
+        ...(def.required && { required: true }),
+        schema: flagSchema(def),
+      });
+    } else {
+      bodyProperties[def.name] = flagSchema(def);
+      if (def.required) bodyRequired.push(def.name);
+    }
+  }
+
+  // Injected by the dispatcher on every request (see dispatch())
+  parameters.push({
+    name: "current_organization_id",
+    in: "query",
+    description: "Organization to act on; defaults to the session's organization",
+    schema: { type: "string" },
+  });
+  if (route.idempotent) {
+    parameters.push({
+      name: "Idempotency-Key",
+      in: "header",
+      description: "Reuse the same key to retry without a duplicate submit",
+      schema: { type: "string" },
+    });
+  }
+
+  const hasBody = Object.keys(bodyProperties).length > 0;
+  const success = route.responseType === "arraybuffer"
+    ? {
+        description: "File",
+        headers: { "Content-Disposition": { schema: { type: "string" } } },
+        content: { "application/octet-stream": { schema: { type: "string", contentMediaType: "application/octet-stream" } } },
+      }
+    : { description: "OK", content: { "application/json": { schema: {} } } };
+
+  return {
+    operationId: operationId(key),
+    ...(route.description && { summary: route.description }),
+    tags: [resource],
+    parameters,
+    ...(hasBody && {
+      requestBody: {
+        required: bodyRequired.length > 0,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: bodyProperties,
+              ...(bodyRequired.length > 0 && { required: bodyRequired }),
+            },
+          },
+        },
+      },
+    }),
+    responses: { "200": success, default: ERROR_RESPONSE },
+    security: [{ sessionToken: [] }],
+  };
+}
+
+/**
+ * Paths served by index.ts.
+ */
+function serverPaths(): Record<string, Record<string, unknown>> {
+  const jsonBody = (schema: JsonSchema) => ({ required: true, content: { "application/json": { schema } } });
+  const jsonResponse = (description: string, schema: JsonSchema) => ({
+    description,
+    content: { "application/json": { schema } },
+  });
+
+  return {
+    "/cli": {
+      post: {
+        operationId: "runCliCommand",
+        summary: "Run a fintoc CLI command against the dashboard API",
+        tags: ["server"],
+        security: [{ bearerAuth: [] }],
+        requestBody: jsonBody({
+          type: "object",
+          required: ["command"],
+          properties: {
+            command: { type: "string", examples: ["fintoc transfers list --limit 5"] },
+            output: { type: "string", enum: [...OUTPUT_FORMATS] },
+            columns: { oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }] },
+            query: { type: "string", description: "JMESPath-style filter applied to the result" },
+            dry_run: { type: "boolean", description: "Resolve the request without calling the API" },
+            raw: { type: "boolean", description: "Return file responses as bytes instead of base64 in JSON" },
+          },
+        }),
+        responses: {
+          "200": {
+            description: "Command output, or the file itself for binary routes with raw: true",
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/CliResult" } },
+              "application/octet-stream": { schema: { type: "string", contentMediaType: "application/octet-stream" } },
+            },
+          },
+          default: jsonResponse("Command failed", { $ref: "#/components/schemas/CliResult" }),
+        },
+      },
+    },
+    "/login": {
+      post: {
+        operationId: "login",
+        summary: "Log in with email and password (and MFA code when required)",
+        tags: ["server"],
+        security: [],
+        requestBody: jsonBody({
+          type: "object",
+          required: ["email", "password"],
+          properties: {
+            email: { type: "string" },
+            password: { type: "string" },
+            mfa_code: { type: "string" },
+          },
+        }),
+        responses: {
+          "200": jsonResponse("Logged in", {
+            type: "object",
+            required: ["token", "email"],
+            properties: { token: { type: "string" }, email: { type: "string" } },
+          }),
+          "403": jsonResponse("MFA code required", {
+            type: "object",
+            properties: { mfa_required: { const: true }, mfa_status: { type: "string" } },
+          }),
+          default: ERROR_RESPONSE,
+        },
+      },
+    },
+    "/chat": {
+      post: {
+        operationId: "chat",
+        summary: "Send a message to the dashboard assistant; replies as server-sent events",
+        tags: ["server"],
+        security: [{ bearerAuth: [] }],
+        requestBody: jsonBody({
+          type: "object",
+          required: ["message"],
+          properties: {
+            message: { type: "string" },
+            threadId: { type: "string" },
+            context: {
+              type: "object",
+              properties: {
+                mode: { type: "string", enum: ["live", "test"] },
+                currentPage: { type: "string" },
+                pageName: { type: ["string", "null"] },
+                user: {
+                  type: "object",
+                  properties: { email: { type: "string" }, name: { type: "string" }, role: { type: "string" } },
+                },
+                organization: {
+                  type: "object",
+                  properties: { id: { type: "string" }, name: { type: "string" }, country: { type: "string" } },
+                },
+              },
+            },
+          },
+        }),
+        responses: {
+          "200": {
+            description: "Event stream: text_delta, tool_call, tool_result, done and error events",
+            content: { "text/event-stream": { schema: { type: "string" } } },
+          },
+          default: ERROR_RESPONSE,
+        },
+      },
+    },
+    "/openapi.json": {
+      get: {
+        operationId: "getOpenApiSpec",
+        summary: "This document",
+        tags: ["server"],
+        security: [],
+        responses: { "200": jsonResponse("OpenAPI document", { type: "object" }) },
+      },
+    },
+  };
+}
+
+/**
+ * Build the OpenAPI document. Routes sharing a path are merged under one
+ * path item; when two routes use the same path and method, the first wins.
+ */
+export function buildOpenApiSpec(options: OpenApiOptions = {}): OpenApiDocument {
+  const serverUrl = options.serverUrl ?? `http://localhost:${Number(process.env.PORT) || 4000}`;
+  const apiUrl = options.apiUrl ?? config.api.host;
+
+  const paths: Record<string, Record<string, unknown>> = serverPaths();
+  for (const [key, route] of Object.entries(routes)) {
+    const path = route.path.replace(/:(\w+)/g, "{$1}");
+    const item = (paths[path] ??= { servers: [{ url: apiUrl, description: "Fintoc dashboard API" }] });
+    const method = route.method.toLowerCase();
+    if (!(method in item)) item[method] = routeOperation(key, route);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Fintoc CLI",
+      version: "1.0.0",
+      description: "The fintoc CLI server and the dashboard API routes it proxies.",
+    },
+    servers: [{ url: serverUrl, description: "fintoc CLI server" }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: 'Session token from POST /login or "fintoc auth token"' },
+        sessionToken: { type: "apiKey", in: "header", name: "X-Session-Token" },
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          properties: {
+            error: {
+              oneOf: [
+                { type: "string" },
+                { type: "object", properties: { code: { type: "string" }, message: { type: "string" } } },
+              ],
+            },
+          },
+        },
+        CliResult: {
+          type: "object",
+          properties: {
+            output: { type: "string" },
+            request: { type: "object", description: "The resolved request, with dry_run" },
+            suggestions: { type: "array", items: { type: "string" } },
+            warnings: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Automatic pagination for list routes (--all / --max-pages).
+ *
+ * Cursor routes (v2) are followed via starting_after = last item id.
+ * Page routes (v1) are followed by incrementing page.
+ * Results from every page are concatenated into a single array.
+ */
+
+import type { RouteDefinition } from "./routes.ts";
+
+export const DEFAULT_MAX_PAGES = 50;
+
+export interface PageResponse {
+  status: number;
+  data: unknown;
+  headers: Record<string, string>;
+}
+
+export interface PaginatedResponse extends PageResponse {
+  pages: number;
+  truncated: boolean;
+}
+
+/**
+ * Pull the list of items out of a page response.
+ * Supports bare arrays and `{ data: [...] }` envelopes.
+ */
+export function extractItems(data: unknown): unknown[] | null {
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === "object") {
+    const inner = (data as Record<string, unknown>).data;
+    if (Array.isArray(inner)) return inner;
+  }
+  return null;
+}
+
+function lastItemId(items: unknown[]): string | undefined {
+  const last = items[items.length - 1];
+  if (last && typeof last === "object" && "id" in last) {
+    const id = (last as { id: unknown }).id;
+    return id === undefined || id === null ? undefined : String(id);
+  }
+  return undefined;
+}
+
+function hasMore(data: unknown): boolean | undefined {
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    const value = (data as Record<string, unknown>).has_more;
+    if (typeof value === "boolean") return value;
+  }
+  return undefined;
+}
+
+/**
+ * Fetch pages until exhausted or maxPages is reached.
+ * Stops early and returns the failing page if any request is non-2xx.
+ */
+export async function fetchAllPages(
+  route: RouteDefinition,
+  query: Record<string, unknown>,
+  fetchPage: (query: Record<string, unknown>) => Promise<PageResponse>,
+  maxPages: number = DEFAULT_MAX_PAGES
+): Promise<PaginatedResponse> {
+  const items: unknown[] = [];
+  const pageQuery = { ...query };
+  let pages = 0;
+  let last: PageResponse | undefined;
+
+  if (route.pagination === "page" && pageQuery.page === undefined) {
+    pageQuery.page = 1;
+  }
+
+  while (pages < maxPages) {
+    last = await fetchPage({ ...pageQuery });
+    pages += 1;
+
+    if (last.status < 200 || last.status >= 300) {
+      return { ...last, pages, truncated: false };
+    }
+
+    const pageItems = extractItems(last.data);
+    if (!pageItems) {
+      // Not a list response — nothing to follow
+      return { ...last, pages, truncated: false };
+    }
+    items.push(...pageItems);
+
+    if (pageItems.length === 0 || hasMore(last.data) === false) break;
+
+    if (route.pagination === "cursor") {
+      const limit = Number(pageQuery.limit);
+      if (Number.isFinite(limit) && pageItems.length < limit) break;
+
+      const cursor = lastItemId(pageItems);
+      if (!cursor) break;
+      pageQuery.starting_after = cursor;
+    } else {
+      const perPage = Number(pageQuery.per_page);
+      if (Number.isFinite(perPage) && pageItems.length < perPage) break;
+
+      pageQuery.page = Number(pageQuery.page) + 1;
+    }
+
+    if (pages === maxPages) {
+      return { status: last.status, data: items, headers: last.headers, pages, truncated: true };
+    }
+  }
+
+  return {
+    status: last?.status ?? 200,
+    data: items,
+    headers: last?.headers ?? {},
+    pages,
+    truncated: false,
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { parseArgs, parseCommand } from "./parser.ts";
+
+describe("parseCommand", () => {
+  test("keeps undeclared nested values as strings, except booleans", () => {
+    const { flags } = parseCommand(
+      "transfer-intents create --account_id acc_1 --amount 1000 --counterparty.account_number 00123 --counterparty.holder_id 123456789 --metadata.paid true"
+    );
+
+    expect(flags.amount).toBe(1000);
+    expect(flags.counterparty).toEqual({ account_number: "00123", holder_id: "123456789" });
+    expect(flags.metadata).toEqual({ paid: true });
+  });
+
+  test("reads nested booleans as booleans", () => {
+    const links = parseCommand("links update lnk_1 --link_data.active false --link_data.prevent_refresh true");
+    expect(links.flags.link_data).toEqual({ active: false, prevent_refresh: true });
+
+    const accountNumbers = parseCommand("account-numbers update an_1 --options.send_to_receiver true");
+    expect(accountNumbers.flags.options).toEqual({ send_to_receiver: true });
+  });
+
+  test("control switches do not consume the next positional", () => {
+    const parsed = parseArgs(["accounts", "movements", "--all", "acc_1", "--dry-run", "extra"]);
+
+    expect(parsed.args).toEqual(["acc_1", "extra"]);
+    expect(parsed.flags).toMatchObject({ all: true, "dry-run": true });
+  });
+
+  test("control switches still take an explicit true/false", () => {
+    const { flags } = parseCommand("transfers list --all false --as-curl true");
+    expect(flags).toMatchObject({ all: false, "as-curl": true });
+  });
+
+  test("--wait takes only a number of seconds", () => {
+    expect(parseCommand("exports create --wait 30").flags.wait).toBe(30);
+
+    const parsed = parseCommand("exports create --wait movements");
+    expect(parsed.flags.wait).toBe(true);
+    expect(parsed.args).toEqual(["movements"]);
+  });
+
+  test("rejects a scalar flag repeated with different values", () => {
+    expect(() => parseCommand("transfer-intents create --account_id acc_1 --amount 1000 --amount 2000")).toThrow(
+      "--amount was given more than once (1000, 2000)"
+    );
+    expect(parseCommand("transfers list --mode test --mode test").flags.mode).toBe("test");
+  });
+});
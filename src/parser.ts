@@ -5,140 +5,378 @@
  *   "fintoc transfers list --mode live --limit 10"
  *   "fintoc transfers show abc123 --mode live"
  *   "fintoc transfer-intents create --counterparty.name Foo --counterparty.account_number 123"
+ *   "fintoc transfer-batches create --data @batch.json --mode live"
+ *
+ * --data / --data-yaml supply a request payload as inline JSON/YAML,
+ * "@path" (a file) or "-" (stdin). The payload is the base and
+ * dot-notation flags are merged over it.
+ *
+ * Flag values are typed using the route's flag schema when the flag is
+ * declared (so a string flag keeps "00123" as-is) and inferred otherwise.
+ * Undeclared nested dot-notation values stay strings, except true/false.
  */
 
+import { readFileSync } from "node:fs";
+import { routes, routeKey } from "./routes.ts";
+import type { FlagDefinition } from "./routes.ts";
+
 export interface ParsedCommand {
   resource: string;
   action: string;
+  /** First positional argument */
   id?: string;
+  /** All positional arguments, in order; fill the route's path placeholders */
+  args?: string[];
   flags: Record<string, unknown>;
 }
 
+export interface ParseOptions {
+  /**
+   * Read a "@path" or "-" data source. Omitted where local files and
+   * stdin must not be reachable (e.g. the HTTP server).
+   */
+  readSource?: (source: string) => string;
+}
+
+/** Flags consumed by the parser itself. */
+export const PARSER_FLAG_NAMES = ["data", "data-yaml"] as const;
+
+/** Dispatcher control flags whose values are always text (e.g. --query "[0]"). */
+const TEXT_FLAGS = new Set(["query", "columns", "output", "idempotency-key", "out"]);
+
+/** Dispatcher control flags that are switches: like declared booleans, they only take an explicit true/false. */
+const SWITCH_FLAGS = new Set(["all", "dry-run", "dry_run", "as-curl", "as_curl", "as-httpie", "as_httpie"]);
+
+type DataFormat = "json" | "yaml";
+
 /**
- * Expand dot-notation keys into nested objects.
- * { "counterparty.name": "Foo", "counterparty.account_number": "123" }
- * becomes
- * { counterparty: { name: "Foo", account_number: "123" } }
+ * Read "@path" from disk or "-" from stdin.
  */
-function expandDotNotation(flat: Record<string, string>): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(flat)) {
-    const parts = key.split(".");
-    let current: Record<string, unknown> = result;
-
-    for (let i = 0; i < parts.length - 1; i++) {
-      const part = parts[i]!;
-      if (
-        !(part in current) ||
-        typeof current[part] !== "object" ||
-        current[part] === null
-      ) {
-        current[part] = {};
-      }
-      current = current[part] as Record<string, unknown>;
+export function readLocalSource(source: string): string {
+  if (source === "-") return readFileSync(0, "utf8");
+  return readFileSync(source.slice(1), "utf8");
+}
+
+function loadData(value: string, format: DataFormat, options: ParseOptions): Record<string, unknown> {
+  const flag = format === "yaml" ? "--data-yaml" : "--data";
+  let text = value;
+  if (value === "-" || value.startsWith("@")) {
+    if (!options.readSource) {
+      throw new Error(`${flag} ${value}: reading files or stdin is not supported here. Pass the payload inline.`);
+    }
+    try {
+      text = options.readSource(value);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`${flag} ${value}: ${reason}`);
     }
+  }
 
-    const lastPart = parts[parts.length - 1]!;
+  let data: unknown;
+  try {
+    data = format === "yaml" ? Bun.YAML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${flag} ${value}: invalid ${format.toUpperCase()} (${reason})`);
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`${flag} ${value}: payload must be an object`);
+  }
+  return data as Record<string, unknown>;
+}
 
-    // Try to parse JSON values for arrays/objects
-    let parsed: unknown = value;
-    if (value.startsWith("[") || value.startsWith("{")) {
-      try {
-        parsed = JSON.parse(value);
-      } catch {
-        // keep as string
-      }
+/**
+ * Merge `override` into `base`, recursing into nested objects.
+ */
+function deepMerge(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const existing = result[key];
+    const bothObjects =
+      existing && typeof existing === "object" && !Array.isArray(existing) &&
+      value && typeof value === "object" && !Array.isArray(value);
+    result[key] = bothObjects
+      ? deepMerge(existing as Record<string, unknown>, value as Record<string, unknown>)
+      : value;
+  }
+  return result;
+}
+
+/**
+ * Infer a type for a value with no declared flag type:
+ * "true"/"false" become booleans, JSON arrays/objects are parsed, and
+ * plain decimal numbers (including negatives and floats) become numbers.
+ * Values with leading zeros ("00123") or beyond safe integer precision
+ * stay strings, since they are usually identifiers.
+ */
+function inferValue(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (value.startsWith("[") || value.startsWith("{")) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
     }
-    // Try to parse numbers
-    else if (/^\d+$/.test(value)) {
-      parsed = Number(value);
+  }
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(value)) {
+    const number = Number(value);
+    if (Number.isInteger(number) && !Number.isSafeInteger(number)) return value;
+    return number;
+  }
+  return value;
+}
+
+/**
+ * Convert raw values using the route's declared flag type. Values that
+ * do not fit the type are left as strings so validateFlags() can report them.
+ * Throws when a scalar flag is given twice with different values, rather
+ * than silently keeping one (--amount 1000 --amount 2000).
+ */
+function coerceFlag(values: unknown[], def: FlagDefinition | undefined): unknown {
+  const last = values[values.length - 1];
+  const scalar = def?.type === "string" || def?.type === "number" || def?.type === "boolean";
+  if (scalar && values.some((value) => value !== last)) {
+    throw new Error(`--${def.name} was given more than once (${values.map(String).join(", ")}). Pass it once.`);
+  }
+
+  switch (def?.type) {
+    case "string":
+      return typeof last === "boolean" ? last : String(last);
+    case "number": {
+      const number = typeof last === "string" && last.trim() !== "" ? Number(last) : NaN;
+      return Number.isFinite(number) ? number : last;
     }
+    case "boolean":
+      return last === "true" ? true : last === "false" ? false : last;
+    case "array": {
+      // --events '["a","b"]' or --events a --events b
+      if (values.length === 1 && typeof last === "string" && last.startsWith("[")) {
+        return inferValue(last);
+      }
+      return values.map(inferValue);
+    }
+    case "object":
+      return inferValue(last);
+    default:
+      return values.length > 1 ? values.map(inferValue) : inferValue(last);
+  }
+}
 
-    current[lastPart] = parsed;
+/**
+ * Undeclared nested dot-notation values: "true"/"false" become booleans
+ * (--link_data.active false); anything else stays text, since nested
+ * fields are mostly identifiers (account numbers, RUTs).
+ */
+function coerceNested(name: string, values: unknown[]): unknown {
+  const value = coerceFlag(values, { name, type: "string" });
+  return value === "true" ? true : value === "false" ? false : value;
+}
+
+/**
+ * Set a value at a dot-notation path, creating nested objects.
+ * "counterparty.name" = "Foo" becomes { counterparty: { name: "Foo" } }.
+ */
+function setPath(target: Record<string, unknown>, key: string, value: unknown): void {
+  const parts = key.split(".");
+  let current = target;
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    const part = parts[i]!;
+    if (!(part in current) || typeof current[part] !== "object" || current[part] === null) {
+      current[part] = {};
+    }
+    current = current[part] as Record<string, unknown>;
   }
+  current[parts[parts.length - 1]!] = value;
+}
 
-  return result;
+interface Token {
+  value: string;
+  /** Quoted or escaped text is always a value, never a flag */
+  literal: boolean;
 }
 
 /**
- * Tokenize a command string, respecting quoted strings.
+ * Tokenize a command string like a POSIX shell: whitespace separates
+ * tokens, single or double quotes group them, and a backslash escapes
+ * the next character (inside quotes only the quote character and
+ * backslash itself, so "C:\dir" keeps its backslash).
  */
-function tokenize(input: string): string[] {
-  const tokens: string[] = [];
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
   let current = "";
+  let literal = false;
+  let started = false;
   let inQuote: string | null = null;
 
   for (let i = 0; i < input.length; i++) {
     const char = input[i]!;
+    const next = input[i + 1];
 
     if (inQuote) {
-      if (char === inQuote) {
+      if (char === "\\" && (next === inQuote || next === "\\")) {
+        current += next;
+        i++;
+      } else if (char === inQuote) {
         inQuote = null;
       } else {
         current += char;
       }
     } else if (char === '"' || char === "'") {
       inQuote = char;
-    } else if (char === " " || char === "\t") {
-      if (current.length > 0) {
-        tokens.push(current);
+      literal = true;
+      started = true;
+    } else if (char === "\\" && next !== undefined) {
+      current += next;
+      literal = true;
+      started = true;
+      i++;
+    } else if (char === " " || char === "\t" || char === "\n") {
+      if (started) {
+        tokens.push({ value: current, literal });
         current = "";
+        literal = false;
+        started = false;
       }
     } else {
       current += char;
+      started = true;
     }
   }
 
-  if (current.length > 0) {
-    tokens.push(current);
+  if (inQuote) {
+    throw new Error(`Unterminated ${inQuote === '"' ? "double" : "single"} quote in command`);
+  }
+  if (started) {
+    tokens.push({ value: current, literal });
   }
 
   return tokens;
 }
 
-export function parseCommand(command: string): ParsedCommand {
-  const tokens = tokenize(command.trim());
+function isFlagToken(token: Token | undefined): boolean {
+  return !!token && !token.literal && token.value.startsWith("--") && token.value.length > 2;
+}
 
+/**
+ * Parse tokens into resource, action, positional id and flags.
+ *
+ * Flags:
+ *   --name value, --name=value    value (typed by the route's flag schema)
+ *   --name                        true
+ *   --no-name                     false
+ *   --name a --name b             ["a", "b"]
+ *   --                            everything after is positional
+ *
+ * Positional arguments fill the route's path placeholders in order.
+ */
+function parseTokens(tokens: Token[], options: ParseOptions): ParsedCommand {
   // Skip the leading "fintoc" if present
   let startIndex = 0;
-  if (tokens[0]?.toLowerCase() === "fintoc") {
+  if (tokens[0]?.value.toLowerCase() === "fintoc") {
     startIndex = 1;
   }
 
-  const resource = tokens[startIndex] || "";
-  const action = tokens[startIndex + 1] || "";
+  const resource = tokens[startIndex]?.value || "";
+  const action = tokens[startIndex + 1]?.value || "";
+  const route = routes[routeKey(resource, action)];
+  const declared = (name: string) => route?.flags?.find((f) => f.name === name.split(".")[0]);
+  // --wait takes an optional number of seconds; anything else after it is a positional
+  const acceptsValue = (name: string, value: string): boolean => {
+    const def = declared(name);
+    if (def?.type === "boolean" || (!def && SWITCH_FLAGS.has(name))) return value === "true" || value === "false";
+    if (!def && name === "wait") return /^\d+(\.\d+)?$/.test(value);
+    return true;
+  };
 
-  // Parse flags and positional args
-  let id: string | undefined;
-  const flatFlags: Record<string, string> = {};
+  const args: string[] = [];
+  const rawFlags = new Map<string, unknown[]>();
+  let data: Record<string, unknown> = {};
+  let optionsEnded = false;
 
   let i = startIndex + 2;
   while (i < tokens.length) {
     const token = tokens[i]!;
 
-    if (token.startsWith("--")) {
-      const flagName = token.slice(2);
-
-      // Check if next token is a value (not another flag)
-      if (i + 1 < tokens.length && !tokens[i + 1]!.startsWith("--")) {
-        flatFlags[flagName] = tokens[i + 1]!;
-        i += 2;
+    if (optionsEnded || !isFlagToken(token)) {
+      if (!optionsEnded && !token.literal && token.value === "--") {
+        optionsEnded = true;
       } else {
-        // Boolean flag
-        flatFlags[flagName] = "true";
+        args.push(token.value);
+      }
+      i += 1;
+      continue;
+    }
+
+    const body = token.value.slice(2);
+    const equals = body.indexOf("=");
+    let name = equals === -1 ? body : body.slice(0, equals);
+    let value: unknown = equals === -1 ? undefined : body.slice(equals + 1);
+    i += 1;
+
+    if (value === undefined && name.startsWith("no-") && !declared(name)) {
+      name = name.slice(3);
+      value = false;
+    } else if (value === undefined) {
+      const next = tokens[i];
+      const takesValue =
+        next !== undefined &&
+        !isFlagToken(next) &&
+        !(!next.literal && next.value === "--") &&
+        acceptsValue(name, next.value);
+      if (takesValue) {
+        value = next.value;
         i += 1;
+      } else {
+        value = true;
       }
-    } else {
-      // Positional argument — treat as ID
-      if (!id) {
-        id = token;
+    }
+
+    if (name === "data" || name === "data-yaml") {
+      if (typeof value !== "string") {
+        throw new Error(`--${name} requires a value: inline payload, @file or - for stdin`);
       }
-      i += 1;
+      data = deepMerge(data, loadData(value, name === "data-yaml" ? "yaml" : "json", options));
+      continue;
     }
+
+    rawFlags.set(name, [...(rawFlags.get(name) ?? []), value]);
   }
 
-  const flags = expandDotNotation(flatFlags);
+  const flatFlags: Record<string, unknown> = {};
+  for (const [name, values] of rawFlags) {
+    if (TEXT_FLAGS.has(name)) {
+      setPath(flatFlags, name, coerceFlag(values, { name, type: "string" }));
+    } else if (name.includes(".")) {
+      const def = route?.flags?.find((f) => f.name === name);
+      setPath(flatFlags, name, def ? coerceFlag(values, def) : coerceNested(name, values));
+    } else {
+      setPath(flatFlags, name, coerceFlag(values, declared(name)));
+    }
+  }
+  const flags = deepMerge(data, flatFlags);
+
+  return { resource, action, id: args[0], args, flags };
+}
 
-  return { resource, action, id, flags };
+/**
+ * Parse a command string. Throws when a --data / --data-yaml payload
+ * cannot be read or parsed, a quote is left open, or a scalar flag is
+ * repeated with different values.
+ */
+export function parseCommand(command: string, options: ParseOptions = {}): ParsedCommand {
+  return parseTokens(tokenize(command.trim()), options);
+}
+
+/**
+ * Parse an argument vector that a shell has already split
+ * (e.g. process.argv.slice(2)); no quote or escape handling is applied.
+ */
+export function parseArgs(args: string[], options: ParseOptions = {}): ParsedCommand {
+  return parseTokens(
+    args.map((value) => ({ value, literal: false })),
+    options
+  );
 }
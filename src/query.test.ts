@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import { compileQuery } from "./query.ts";
+
+const transfers = {
+  data: [
+    { id: "tr_1", amount: 500, status: "succeeded", counterparty: { holder_name: "Ana" }, metadata: { order_id: "o_1" } },
+    { id: "tr_2", amount: 1500, status: "failed", counterparty: { holder_name: "Luis" }, metadata: {} },
+    { id: "tr_3", amount: "2000", status: "pending", counterparty: { holder_name: "a>=b" }, metadata: null },
+  ],
+};
+
+function run(expression: string, data: unknown = transfers): unknown {
+  return compileQuery(expression)(data);
+}
+
+describe("compileQuery", () => {
+  test("reads fields, nested paths and indexes", () => {
+    expect(run(".")).toEqual(transfers);
+    expect(run("data[0].id")).toBe("tr_1");
+    expect(run(".data[-1].counterparty.holder_name")).toBe("a>=b");
+    expect(run("data[9].id")).toBeNull();
+    expect(run("missing.path")).toBeNull();
+  });
+
+  test("projects over arrays", () => {
+    expect(run("data[].id")).toEqual(["tr_1", "tr_2", "tr_3"]);
+    expect(run("data[*].metadata.order_id")).toEqual(["o_1"]);
+  });
+
+  test("filters by comparator against literals", () => {
+    expect(run("data[?status=='failed'].id")).toEqual(["tr_2"]);
+    expect(run("data[?status!='failed'].id")).toEqual(["tr_1", "tr_3"]);
+    expect(run("data[?amount>=1500].id")).toEqual(["tr_2", "tr_3"]);
+    expect(run("data[?amount > 1000].id")).toEqual(["tr_2", "tr_3"]);
+    expect(run("data[?amount<1500].id")).toEqual(["tr_1"]);
+    expect(run("data[?amount<=500].id")).toEqual(["tr_1"]);
+    expect(run("data[?status==pending].id")).toEqual(["tr_3"]);
+  });
+
+  test("does not split on operators inside quoted literals", () => {
+    expect(run("data[?counterparty.holder_name=='a>=b'].id")).toEqual(["tr_3"]);
+    expect(run('data[?counterparty.holder_name=="a>=b"].id')).toEqual(["tr_3"]);
+    expect(run("data[?status=='a|b'].id")).toEqual([]);
+  });
+
+  test("filters by truthy field", () => {
+    expect(run("data[?metadata.order_id].id")).toEqual(["tr_1"]);
+  });
+
+  test("picks fields into new objects", () => {
+    expect(run("data[0].{id, amount, name: counterparty.holder_name, missing}")).toEqual({
+      id: "tr_1",
+      amount: 500,
+      name: "Ana",
+      missing: null,
+    });
+    expect(run("data[?status=='failed'].{id, amount}")).toEqual([{ id: "tr_2", amount: 1500 }]);
+  });
+
+  test("pipes into length", () => {
+    expect(run("data | length")).toBe(3);
+    expect(run("data[?amount > 1000] | length")).toBe(2);
+    expect(run("data[0].id | length")).toBe(4);
+    expect(run("data[0].counterparty | length")).toBe(1);
+    expect(run("data | [0] | id")).toBe("tr_1");
+  });
+
+  test("rejects malformed expressions before evaluating", () => {
+    expect(() => compileQuery("data[0")).toThrow('Invalid --query "data[0": unclosed [');
+    expect(() => compileQuery("data[0].{id")).toThrow("unclosed {");
+    expect(() => compileQuery("data[abc]")).toThrow("unsupported bracket expression [abc]");
+    expect(() => compileQuery("data[?status==(x)]")).toThrow("unsupported literal (x)");
+    expect(() => compileQuery("data[?a..b]")).toThrow('invalid path "a..b"');
+    expect(() => compileQuery("data ! id")).toThrow('unexpected " " at position 4');
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Minimal JSON query language for --query (a JMESPath/jq-like subset).
+ *
+ * Supported:
+ *   .                          identity
+ *   id   /  .id                field access (leading dot optional)
+ *   counterparty.holder_name   nested fields
+ *   [0]  [-1]                  array index (negative counts from the end)
+ *   [] / [*]                   project over every array element
+ *   [?status=='pending']       filter (==, !=, >, <, >=, <=) against a literal
+ *   [?metadata.order_id]       filter by truthy field
+ *   {id, amount, name: counterparty.holder_name}
+ *                              pick fields into a new object
+ *   expr | length              pipe; `length` counts arrays, strings and object keys
+ *
+ * Examples:
+ *   --query id
+ *   --query "[].id"
+ *   --query "data[?status=='failed'].{id, amount}"
+ *   --query "[?amount > 1000] | length"
+ */
+
+type Literal = string | number | boolean | null;
+
+type Segment =
+  | { kind: "field"; name: string }
+  | { kind: "index"; index: number }
+  | { kind: "project" }
+  | { kind: "filter"; path: string[]; op?: string; value?: Literal }
+  | { kind: "pick"; fields: { key: string; path: string[] }[] }
+  | { kind: "length" };
+
+const COMPARATORS = ["==", "!=", ">=", "<=", ">", "<"];
+
+function queryError(expression: string, message: string): Error {
+  return new Error(`Invalid --query "${expression}": ${message}`);
+}
+
+function parseLiteral(raw: string, expression: string): Literal {
+  const text = raw.trim();
+  if (/^'.*'$/.test(text) || /^".*"$/.test(text)) return text.slice(1, -1);
+  if (text === "true") return true;
+  if (text === "false") return false;
+  if (text === "null") return null;
+  if (text !== "" && Number.isFinite(Number(text))) return Number(text);
+  // Bare words are strings (shell and CLI tokenizing may strip the quotes)
+  if (/^[\w.@:-]+$/.test(text)) return text;
+  throw queryError(expression, `unsupported literal ${text}`);
+}
+
+function parsePath(raw: string, expression: string): string[] {
+  const parts = raw.trim().replace(/^\./, "").split(".");
+  if (parts.some((p) => !/^[\w$-]+$/.test(p))) {
+    throw queryError(expression, `invalid path "${raw.trim()}"`);
+  }
+  return parts;
+}
+
+/**
+ * Call `visit` for each character of `input` from `start` that is outside
+ * a quoted string, until it returns true. Returns that index, or -1.
+ */
+function scanUnquoted(input: string, start: number, visit: (char: string, index: number) => boolean): number {
+  let quote: string | null = null;
+  for (let i = start; i < input.length; i++) {
+    const char = input[i]!;
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (visit(char, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find the matching closing bracket, skipping over quoted strings.
+ */
+function closingIndex(input: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  return scanUnquoted(input, start, (char) => {
+    if (char === open) depth += 1;
+    else if (char === close) depth -= 1;
+    return char === close && depth === 0;
+  });
+}
+
+/**
+ * Find the first comparison operator outside quoted literals, preferring
+ * two-character operators at the same position (">=" over ">").
+ */
+function findComparator(condition: string): { op: string; index: number } | undefined {
+  let op: string | undefined;
+  const index = scanUnquoted(condition, 0, (_, i) => {
+    op = COMPARATORS.find((c) => condition.startsWith(c, i));
+    return op !== undefined;
+  });
+  return op !== undefined ? { op, index } : undefined;
+}
+
+/**
+ * Parse a single pipe stage into path segments.
+ */
+function parseStage(stage: string, expression: string): Segment[] {
+  const input = stage.trim();
+  if (input === "" || input === ".") return [];
+  if (input === "length") return [{ kind: "length" }];
+
+  const segments: Segment[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i]!;
+
+    if (char === ".") {
+      i += 1;
+      continue;
+    }
+
+    if (char === "[") {
+      const end = closingIndex(input, i, "[", "]");
+      if (end === -1) throw queryError(expression, "unclosed [");
+      const inner = input.slice(i + 1, end).trim();
+
+      if (inner === "" || inner === "*") {
+        segments.push({ kind: "project" });
+      } else if (inner.startsWith("?")) {
+        const condition = inner.slice(1);
+        const comparator = findComparator(condition);
+        if (comparator) {
+          const { op, index } = comparator;
+          const [left, right] = [condition.slice(0, index), condition.slice(index + op.length)];
+          segments.push({
+            kind: "filter",
+            path: parsePath(left, expression),
+            op,
+            value: parseLiteral(right, expression),
+          });
+        } else {
+          segments.push({ kind: "filter", path: parsePath(condition, expression) });
+        }
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ kind: "index", index: Number(inner) });
+      } else {
+        throw queryError(expression, `unsupported bracket expression [${inner}]`);
+      }
+
+      i = end + 1;
+      continue;
+    }
+
+    if (char === "{") {
+      const end = closingIndex(input, i, "{", "}");
+      if (end === -1) throw queryError(expression, "unclosed {");
+      const fields = input
+        .slice(i + 1, end)
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+          const colon = entry.indexOf(":");
+          if (colon === -1) {
+            const path = parsePath(entry, expression);
+            return { key: path[path.length - 1]!, path };
+          }
+          return {
+            key: entry.slice(0, colon).trim(),
+            path: parsePath(entry.slice(colon + 1), expression),
+          };
+        });
+      segments.push({ kind: "pick", fields });
+      i = end + 1;
+      continue;
+    }
+
+    const match = /^[\w$-]+/.exec(input.slice(i));
+    if (!match) throw queryError(expression, `unexpected "${char}" at position ${i}`);
+    segments.push({ kind: "field", name: match[0] });
+    i += match[0].length;
+  }
+
+  return segments;
+}
+
+function getPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const part of path) {
+    if (current === null || typeof current !== "object" || Array.isArray(current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function compare(left: unknown, op: string, right: Literal): boolean {
+  switch (op) {
+    case "==":
+      return left === right || (left !== undefined && left !== null && String(left) === String(right));
+    case "!=":
+      return !compare(left, "==", right);
+  }
+  if (typeof left !== typeof right || left === null || right === null) {
+    const [l, r] = [Number(left), Number(right)];
+    if (!Number.isFinite(l) || !Number.isFinite(r)) return false;
+    return compare(l, op, r);
+  }
+  const [l, r] = [left as number | string, right as number | string];
+  switch (op) {
+    case ">":
+      return l > r;
+    case "<":
+      return l < r;
+    case ">=":
+      return l >= r;
+    case "<=":
+      return l <= r;
+  }
+  return false;
+}
+
+function evaluate(value: unknown, segments: Segment[], index: number): unknown {
+  if (index >= segments.length || value === undefined) return value;
+  const segment = segments[index]!;
+
+  switch (segment.kind) {
+    case "field":
+      return evaluate(getPath(value, [segment.name]), segments, index + 1);
+
+    case "index": {
+      if (!Array.isArray(value)) return undefined;
+      const i = segment.index < 0 ? value.length + segment.index : segment.index;
+      return evaluate(value[i], segments, index + 1);
+    }
+
+    case "project":
+    case "filter": {
+      if (!Array.isArray(value)) return undefined;
+      const items =
+        segment.kind === "filter"
+          ? value.filter((item) => {
+              const field = getPath(item, segment.path);
+              return segment.op ? compare(field, segment.op, segment.value!) : Boolean(field);
+            })
+          : value;
+      return items
+        .map((item) => evaluate(item, segments, index + 1))
+        .filter((item) => item !== undefined);
+    }
+
+    case "pick": {
+      if (value === null || typeof value !== "object") return undefined;
+      const picked: Record<string, unknown> = {};
+      for (const field of segment.fields) {
+        picked[field.key] = getPath(value, field.path) ?? null;
+      }
+      return evaluate(picked, segments, index + 1);
+    }
+
+    case "length": {
+      const length =
+        Array.isArray(value) || typeof value === "string"
+          ? value.length
+          : value && typeof value === "object"
+            ? Object.keys(value).length
+            : undefined;
+      return evaluate(length, segments, index + 1);
+    }
+  }
+}
+
+/**
+ * Compile a query expression. Throws on syntax errors, so callers can
+ * reject a bad --query before any request is made.
+ * Missing paths evaluate to null.
+ */
+export function compileQuery(expression: string): (data: unknown) => unknown {
+  const stages = splitPipes(expression).map((stage) => parseStage(stage, expression));
+  return (data) => {
+    let result = data;
+    for (const segments of stages) {
+      result = evaluate(result, segments, 0);
+    }
+    return result ?? null;
+  };
+}
+
+/**
+ * Split on top-level "|" (ignoring pipes inside quotes).
+ */
+function splitPipes(expression: string): string[] {
+  const stages: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (const char of expression) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "|") {
+      stages.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  stages.push(current);
+  return stages;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+import { redactCommandLine, redactHeaders, REDACTED } from "./redact.ts";
+
+describe("redactCommandLine", () => {
+  test("redacts sensitive flag values in every spelling", () => {
+    expect(redactCommandLine('transfer-intents create --otp_code 123456 --otp-code="12 34" --code=42')).toBe(
+      `transfer-intents create --otp_code ${REDACTED} --otp-code=${REDACTED} --code=${REDACTED}`
+    );
+  });
+
+  test("redacts the JWT passed to sessions create", () => {
+    expect(redactCommandLine("sessions create --jwt eyJhbGciOiJIUzI1NiJ9.e30.sig")).toBe(`sessions create --jwt ${REDACTED}`);
+  });
+
+  test("redacts sensitive fields inside a --data payload", () => {
+    expect(redactCommandLine('transfers return --data {"otp_code":"999","transfer_id":"tr_1"}')).toBe(
+      `transfers return --data {"otp_code":"${REDACTED}","transfer_id":"tr_1"}`
+    );
+  });
+
+  test("leaves bare flags, similar names and other values alone", () => {
+    const line = "transfers list --otp_code --mode test --codes 5";
+    expect(redactCommandLine(line)).toBe(line);
+  });
+});
+
+describe("redactHeaders", () => {
+  test("redacts credential headers case-insensitively", () => {
+    expect(redactHeaders({ "X-Session-Token": "abc", Accept: "application/json" })).toEqual({
+      "X-Session-Token": REDACTED,
+      Accept: "application/json",
+    });
+  });
+});
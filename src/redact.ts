@@ -0,0 +1,64 @@
+/**
+ * Header redaction for anything that prints or persists a request:
+ * cassettes, --dry-run and request snippets. Command lines kept in the
+ * shell history and request bodies written to cassettes get their
+ * credential flags redacted the same way.
+ */
+
+export const REDACTED = "[REDACTED]";
+
+/** Request and response headers that carry credentials (lowercase). */
+export const SENSITIVE_HEADERS = ["x-session-token", "cookie", "authorization", "set-cookie"];
+
+export function redactHeaders(
+  headers: Record<string, string>,
+  names: readonly string[] = SENSITIVE_HEADERS
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    result[key] = names.includes(key.toLowerCase()) ? REDACTED : value;
+  }
+  return result;
+}
+
+/** Flags whose values are credentials or one-time codes. */
+export const SENSITIVE_FLAGS = ["otp_code", "code", "password", "secret", "token", "jwt"];
+
+/**
+ * Redact sensitive flag values in a command line, as "--otp_code 123456",
+ * "--otp-code=123456" or inside a --data payload ("otp_code": "123456").
+ */
+export function redactCommandLine(line: string, names: readonly string[] = SENSITIVE_FLAGS): string {
+  const alternatives = names.map((name) => name.replace(/[-_]/g, "[-_]")).join("|");
+  const value = `"[^"]*"|'[^']*'|(?!--)\\S+`;
+  return line
+    .replace(new RegExp(`(--(?:${alternatives}))(=|\\s+)(${value})`, "g"), `$1$2${REDACTED}`)
+    .replace(new RegExp(`("(?:${alternatives})"\\s*:\\s*)("[^"]*"|\\d+)`, "g"), `$1"${REDACTED}"`);
+}
+
+function isSensitiveField(key: string, names: readonly string[]): boolean {
+  const normalized = key.toLowerCase().replace(/-/g, "_");
+  return names.some((name) => name.replace(/-/g, "_") === normalized);
+}
+
+function redactFields(value: unknown, names: readonly string[]): unknown {
+  if (Array.isArray(value)) return value.map((item) => redactFields(item, names));
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [key, isSensitiveField(key, names) ? REDACTED : redactFields(field, names)])
+  );
+}
+
+/**
+ * Redact sensitive fields, at any depth, in a JSON request body.
+ * Bodies that are not JSON are returned unchanged.
+ */
+export function redactJsonBody(body: string, names: readonly string[] = SENSITIVE_FLAGS): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return body;
+  }
+  return JSON.stringify(redactFields(parsed, names));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { routes } from "./routes.ts";
+import type { RouteDefinition } from "./routes.ts";
+import { checkRouteTable, auditRoutes, loadEndpoints } from "./audit.ts";
+
+const route = (path: string, method: RouteDefinition["method"] = "GET"): RouteDefinition => ({ method, path });
+
+describe("route table", () => {
+  test("has well-formed keys and no duplicate endpoints", () => {
+    expect(checkRouteTable()).toEqual([]);
+  });
+
+  test("reports a key with no action part", () => {
+    const problems = checkRouteTable({ ...routes, transfers: route("/internal/v2/dashboard/unused") });
+    expect(problems).toEqual([{ key: "transfers", message: "Malformed route key (no action part)" }]);
+  });
+
+  test("reports two keys for the same endpoint", () => {
+    const problems = checkRouteTable({ ...routes, "transfers.list-again": { ...routes["transfers.list"]! } });
+    expect(problems).toHaveLength(1);
+    expect(problems[0]!.message).toStartWith("Same endpoint as transfers.list");
+  });
+});
+
+describe("auditRoutes", () => {
+  const table = {
+    "things.list": route("/internal/v1/things"),
+    "things.show": route("/internal/v1/things/:id"),
+    "things.update": route("/internal/v1/things/:id", "PUT"),
+  };
+
+  test("reports missing, extra and mismatched endpoints from a rails routes dump", () => {
+    const dump = [
+      "Prefix Verb   URI Pattern                         Controller#Action",
+      "       GET    /internal/v1/things/:id(.:format)   internal/v1/things#show",
+      "       PATCH  /internal/v1/things/:id(.:format)   internal/v1/things#update",
+      "       POST   /internal/v1/others(.:format)       internal/v1/others#create",
+    ].join("\n");
+    const report = auditRoutes(loadEndpoints(dump, "routes.txt"), { table });
+
+    expect(report.missing).toEqual([{ method: "POST", path: "/internal/v1/others" }]);
+    expect(report.extra.map((r) => r.key)).toEqual(["things.list"]);
+    expect(report.mismatched).toEqual([
+      { path: "/internal/v1/things/:id", routes: [{ key: "things.update", method: "PUT" }], source: ["PATCH"] },
+    ]);
+  });
+
+  test("matches OpenAPI {param} paths against :param routes", () => {
+    const spec = JSON.stringify({
+      paths: {
+        "/internal/v1/things": { get: {} },
+        "/internal/v1/things/{thing_id}": { get: {}, put: {} },
+      },
+    });
+    const report = auditRoutes(loadEndpoints(spec, "openapi.json"), { table });
+    expect(report).toMatchObject({ missing: [], extra: [], mismatched: [], compared: 3 });
+  });
+});
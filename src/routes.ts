@@ -2,12 +2,16 @@
  * Route dispatch table.
  *
  * Maps "resource.action" keys to Rails API endpoint definitions.
- * Every endpoint from the dashboard's /api/modules/ is represented here.
+ * Every endpoint from the dashboard's /api/modules/ is represented here;
+ * `fintoc routes audit <openapi.json|routes.txt>` checks that against the API.
  */
 
 export interface RouteDefinition {
   method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
-  /** Path template. Use :id for positional arg substitution. */
+  /**
+   * Path template. Each :name placeholder is filled from the next
+   * positional argument, or from --name ("/accounts/:account_id/movements/:id").
+   */
   path: string;
   /**
    * Where flags go: "query" sends them as URL params, "body" sends as JSON body.
@@ -20,10 +24,48 @@ export interface RouteDefinition {
    * list the flag names that should go in query. Rest goes in body.
    */
   queryFlags?: string[];
+  /**
+   * Declared flags. Used to apply defaults, validate values before the
+   * request is sent, and decide query vs body placement per flag.
+   * Flags not listed here are passed through untouched.
+   */
+  flags?: FlagDefinition[];
+  /**
+   * Pagination style for list routes, used by --all:
+   * "cursor" follows --starting_after with the last item's id (v2 routes),
+   * "page" increments --page (v1 routes).
+   */
+  pagination?: "cursor" | "page";
   /** Description shown in help */
   description?: string;
   /** Response type override */
   responseType?: "arraybuffer";
+  /**
+   * Money-moving POST: the dispatcher sends an Idempotency-Key header
+   * (generated per command, or taken from --idempotency-key) so a retried
+   * or repeated submit cannot execute twice.
+   */
+  idempotent?: boolean;
+  /**
+   * Creates an asynchronous export: --wait polls this route key until the
+   * file is ready, then downloads it (see exports.ts).
+   */
+  pollRoute?: string;
+}
+
+export type FlagType = "string" | "number" | "boolean" | "array" | "object";
+
+export interface FlagDefinition {
+  /** Flag name as written after "--" (dot-notation parents use the root name). */
+  name: string;
+  type: FlagType;
+  required?: boolean;
+  /** Allowed values (compared as strings). */
+  enum?: readonly string[];
+  /** Value applied when the flag is not provided. */
+  default?: unknown;
+  /** Overrides the route's flagsIn/queryFlags placement for this flag. */
+  in?: "query" | "body";
 }
 
 /**
@@ -33,6 +75,36 @@ export function routeKey(resource: string, action: string): string {
   return `${resource}.${action}`;
 }
 
+/**
+ * Placeholder names in a path template, in order:
+ * "/accounts/:account_id/movements/:id" -> ["account_id", "id"].
+ */
+export function pathParams(path: string): string[] {
+  return [...path.matchAll(/:(\w+)/g)].map((match) => match[1]!);
+}
+
+/**
+ * Positional signature for help and usage errors: "<account_id> <id>".
+ */
+export function routeSignature(route: RouteDefinition): string {
+  return pathParams(route.path).map((name) => `<${name}>`).join(" ");
+}
+
+// ─── Common flags ────────────────────────────────────────────────────────────
+
+const MODE: FlagDefinition = { name: "mode", type: "string", enum: ["live", "test"], default: "test" };
+const LIMIT: FlagDefinition = { name: "limit", type: "number", default: 10 };
+const STARTING_AFTER: FlagDefinition = { name: "starting_after", type: "string" };
+const PAGE: FlagDefinition = { name: "page", type: "number" };
+const PER_PAGE: FlagDefinition = { name: "per_page", type: "number" };
+const OTP_CODE: FlagDefinition = { name: "otp_code", type: "string" };
+const METADATA: FlagDefinition = { name: "metadata", type: "object" };
+const STATUS: FlagDefinition = { name: "status", type: "string" };
+
+function str(name: string, required = false): FlagDefinition {
+  return required ? { name, type: "string", required } : { name, type: "string" };
+}
+
 export const routes: Record<string, RouteDefinition> = {
   // ─── User ──────────────────────────────────────────────────────────────────
   "user.show": {
@@ -48,6 +120,7 @@ export const routes: Record<string, RouteDefinition> = {
   "user.update": {
     method: "PUT",
     path: "/internal/v1/user",
+    flags: [str("name"), str("last_name")],
     description: "Update user (name, last_name)",
   },
   "user.mfa-status": {
@@ -58,16 +131,19 @@ export const routes: Record<string, RouteDefinition> = {
   "user.default-org": {
     method: "PATCH",
     path: "/internal/v1/user/default_organization",
+    flags: [str("default_organization_id", true)],
     description: "Update default organization (default_organization_id)",
   },
   "user.login-strategy": {
     method: "GET",
     path: "/internal/v1/dashboard/user/login_strategy",
+    flags: [str("email", true)],
     description: "Get login strategy for email (--email)",
   },
   "user.change-password": {
     method: "POST",
     path: "/internal/v1/user/change_password",
+    flags: [str("email", true)],
     description: "Request password change (--email)",
   },
 
@@ -75,6 +151,7 @@ export const routes: Record<string, RouteDefinition> = {
   "sessions.create": {
     method: "POST",
     path: "/internal/v1/dashboard/sessions",
+    flags: [str("jwt", true)],
     description: "Create session from JWT (--jwt)",
   },
   "sessions.validate": {
@@ -85,6 +162,7 @@ export const routes: Record<string, RouteDefinition> = {
   "sessions.activate": {
     method: "POST",
     path: "/internal/v1/dashboard/sessions/activate",
+    flags: [str("code", true), { name: "should_trust_device", type: "boolean" }],
     description: "Activate session with MFA (--code, --should_trust_device)",
   },
   "sessions.expire": {
@@ -107,32 +185,40 @@ export const routes: Record<string, RouteDefinition> = {
   "transfers.list": {
     method: "GET",
     path: "/internal/v2/dashboard/transfers",
+    pagination: "cursor",
+    flags: [MODE, LIMIT, STARTING_AFTER, STATUS],
     description: "List transfers (--mode, --limit, --starting_after, etc.)",
   },
   "transfers.show": {
     method: "GET",
     path: "/internal/v2/dashboard/transfers/:id",
+    flags: [MODE],
     description: "Show transfer by ID (--mode)",
   },
   "transfers.return": {
     method: "POST",
     path: "/internal/v2/dashboard/transfers/return",
+    idempotent: true,
+    flags: [str("transfer_id", true), MODE, OTP_CODE],
     description: "Return a transfer (--transfer_id, --mode, --otp_code)",
   },
   "transfers.simulate-receive": {
     method: "POST",
     path: "/internal/v2/dashboard/simulate/receive_transfer",
+    flags: [{ name: "amount_units", type: "number" }, str("amount_currency"), str("number")],
     description: "Simulate receiving a transfer (--amount_units, --amount_currency, --number)",
   },
   "transfers.metadata-keys": {
     method: "GET",
     path: "/internal/v2/dashboard/transfers/metadata_keys",
+    flags: [MODE],
     description: "Get transfer metadata keys (--mode)",
   },
   "transfers.receipt": {
     method: "GET",
     path: "/internal/v2/dashboard/transfers/:id/fintoc_receipt",
-    description: "Download transfer receipt PDF (--mode)",
+    flags: [MODE],
+    description: "Download transfer receipt PDF (--mode, --out)",
     responseType: "arraybuffer",
   },
 
@@ -140,24 +226,40 @@ export const routes: Record<string, RouteDefinition> = {
   "transfer-intents.list": {
     method: "GET",
     path: "/internal/v2/dashboard/transfer_intents",
+    pagination: "cursor",
+    flags: [MODE, LIMIT, STARTING_AFTER, STATUS, str("account_id")],
     description:
       "List transfer intents (--mode, --limit, --status, --account_id, etc.)",
   },
   "transfer-intents.create": {
     method: "POST",
     path: "/internal/v2/dashboard/transfer_intents",
+    idempotent: true,
+    flags: [
+      str("account_id", true),
+      { name: "amount", type: "number" },
+      { name: "amount_cents", type: "number" },
+      { name: "currency", type: "string", enum: ["CLP", "MXN"] },
+      { name: "amount_currency", type: "string", enum: ["CLP", "MXN"] },
+      { name: "counterparty", type: "object" },
+      METADATA,
+      str("comment"),
+      OTP_CODE,
+    ],
     description:
       "Create transfer intent (--account_id, --amount, --currency, --counterparty.*, --metadata.*)",
   },
   "transfer-intents.batch-review": {
     method: "POST",
     path: "/internal/v2/dashboard/transfer_intents/batch_review",
+    flags: [MODE, { name: "transfer_intent_ids", type: "array", required: true }, str("decision", true), OTP_CODE],
     description:
       "Batch approve/reject transfer intents (--mode, --transfer_intent_ids, --decision, --otp_code)",
   },
   "transfer-intents.approvable-count": {
     method: "GET",
     path: "/internal/v2/dashboard/transfer_intents/approvable_count",
+    flags: [MODE],
     description: "Get count of approvable transfer intents (--mode)",
   },
 
@@ -165,32 +267,47 @@ export const routes: Record<string, RouteDefinition> = {
   "transfer-batches.list": {
     method: "GET",
     path: "/internal/v2/dashboard/transfer_batches",
+    pagination: "cursor",
+    flags: [MODE, LIMIT, STARTING_AFTER, STATUS],
     description: "List transfer batches (--mode, --limit, --status, etc.)",
   },
   "transfer-batches.show": {
     method: "GET",
     path: "/internal/v2/dashboard/transfer_batches/:id",
+    flags: [MODE],
     description: "Show transfer batch by ID (--mode)",
   },
   "transfer-batches.create": {
     method: "POST",
     path: "/internal/v2/dashboard/transfer_batches",
+    idempotent: true,
+    flags: [
+      str("description"),
+      { name: "currency", type: "string", enum: ["CLP", "MXN"] },
+      { name: "rows", type: "array", required: true },
+      OTP_CODE,
+      MODE,
+    ],
     description:
       "Create transfer batch (--description, --currency, --rows, --otp_code, --mode)",
   },
   "transfer-batches.list-intents": {
     method: "GET",
     path: "/internal/v2/dashboard/transfer_batches/:id/transfer_intents",
+    pagination: "cursor",
+    flags: [MODE, LIMIT, STARTING_AFTER],
     description: "List intents in a batch (--mode, --limit, etc.)",
   },
   "transfer-batches.review": {
     method: "POST",
     path: "/internal/v2/dashboard/transfer_batches/:id/review",
+    flags: [MODE, str("decision", true), OTP_CODE],
     description: "Review (approve/reject) a batch (--mode, --decision, --otp_code)",
   },
   "transfer-batches.approvable-count": {
     method: "GET",
     path: "/internal/v2/dashboard/transfer_batches/approvable_count",
+    flags: [MODE],
     description: "Get count of approvable batches (--mode)",
   },
 
@@ -198,17 +315,21 @@ export const routes: Record<string, RouteDefinition> = {
   "payments.list": {
     method: "GET",
     path: "/internal/v1/dashboard/payment_intents",
+    pagination: "cursor",
+    flags: [MODE, LIMIT, STARTING_AFTER],
     description: "List payment intents (--mode, --limit, etc.)",
   },
   "payments.show": {
     method: "GET",
     path: "/internal/v1/dashboard/payment_intents/:id",
+    flags: [MODE],
     description: "Show payment intent by ID (--mode)",
   },
   "payments.update": {
     method: "PATCH",
     path: "/internal/v1/dashboard/payment_intents/:id",
     queryFlags: ["mode"],
+    flags: [str("customer_email"), MODE],
     description: "Update payment intent (--customer_email, --mode)",
   },
   "payments.export-email": {
@@ -219,6 +340,7 @@ export const routes: Record<string, RouteDefinition> = {
   "payments.metadata-keys": {
     method: "GET",
     path: "/internal/v1/dashboard/payment_intents/metadata_keys",
+    flags: [MODE],
     description: "Get payment metadata keys (--mode)",
   },
 
@@ -238,6 +360,7 @@ export const routes: Record<string, RouteDefinition> = {
   "payouts.list": {
     method: "GET",
     path: "/internal/v1/dashboard/payouts",
+    flags: [MODE],
     description: "List payouts (--mode, etc.)",
   },
   "payouts.show": {
@@ -248,6 +371,7 @@ export const routes: Record<string, RouteDefinition> = {
   "payouts.summary": {
     method: "GET",
     path: "/internal/v1/dashboard/payouts/summary",
+    flags: [MODE],
     description: "Get payouts summary (--mode, etc.)",
   },
   "payouts.recipient-accounts": {
@@ -263,6 +387,7 @@ export const routes: Record<string, RouteDefinition> = {
   "payouts.upsert-default-recipient-account": {
     method: "POST",
     path: "/internal/v1/dashboard/payouts/default_recipient_account",
+    flags: [str("account_number"), str("holder_id"), str("institution_id")],
     description:
       "Upsert default recipient account (--account_number, --holder_id, --institution_id, etc.)",
   },
@@ -271,22 +396,26 @@ export const routes: Record<string, RouteDefinition> = {
   "recipients.list": {
     method: "GET",
     path: "/internal/v2/dashboard/recipients",
+    flags: [MODE, str("search"), str("holder_type")],
     description: "List recipients (--mode, --search, --holder_type, etc.)",
   },
   "recipients.create": {
     method: "POST",
     path: "/internal/v2/dashboard/recipients",
+    flags: [MODE, str("alias"), str("holder_name"), str("holder_id"), str("account_number")],
     description:
       "Create recipient (--mode, --alias, --holder_name, --holder_id, --account_number, etc.)",
   },
   "recipients.update": {
     method: "PATCH",
     path: "/internal/v2/dashboard/recipients/:id",
+    flags: [MODE, str("alias"), str("holder_name")],
     description: "Update recipient (--mode, --alias, --holder_name, etc.)",
   },
   "recipients.delete": {
     method: "DELETE",
     path: "/internal/v2/dashboard/recipients/:id",
+    flags: [MODE],
     description: "Delete recipient (--mode)",
   },
 
@@ -294,32 +423,40 @@ export const routes: Record<string, RouteDefinition> = {
   "links.list": {
     method: "GET",
     path: "/internal/v1/dashboard/links",
+    pagination: "page",
+    flags: [MODE, str("institution_id"), PAGE, PER_PAGE],
     description: "List links (--mode, --institution_id, --page, --per_page, etc.)",
   },
   "links.show": {
     method: "GET",
     path: "/internal/v1/dashboard/links/:id",
+    flags: [MODE],
     description: "Show link by ID (--mode)",
   },
   "links.update": {
     method: "PUT",
     path: "/internal/v1/dashboard/links/:id",
+    flags: [{ name: "link_data", type: "object" }, MODE],
     description: "Update link (--link_data.active, --link_data.prevent_refresh, --mode)",
   },
   "links.delete": {
     method: "DELETE",
     path: "/internal/v1/dashboard/links/:id",
     flagsIn: "body",
+    flags: [MODE],
     description: "Delete link (--mode)",
   },
   "links.regenerate": {
     method: "POST",
     path: "/internal/v1/dashboard/links/:id/regenerate_link_token",
+    flags: [MODE],
     description: "Regenerate link token (--mode)",
   },
   "links.bank-accounts": {
     method: "GET",
     path: "/internal/v1/dashboard/links/:id/bank_accounts",
+    pagination: "page",
+    flags: [MODE, PAGE, PER_PAGE],
     description: "List bank accounts for a link (--mode, --page, --per_page, etc.)",
   },
 
@@ -327,23 +464,27 @@ export const routes: Record<string, RouteDefinition> = {
   "account-numbers.list": {
     method: "GET",
     path: "/internal/v2/dashboard/account_numbers",
+    flags: [MODE],
     description: "List account numbers (--mode, etc.)",
   },
   "account-numbers.create": {
     method: "POST",
     path: "/internal/v2/dashboard/account_numbers",
+    flags: [MODE, str("account_id"), str("description"), METADATA, { name: "options", type: "object" }],
     description:
       "Create account number (--mode, --account_id, --description, --metadata.*, --options.*)",
   },
   "account-numbers.update": {
     method: "PATCH",
     path: "/internal/v2/dashboard/account_numbers/:id",
+    flags: [MODE, str("description"), METADATA, STATUS, { name: "options", type: "object" }],
     description:
       "Update account number (--mode, --description, --metadata.*, --status, --options.*)",
   },
   "account-numbers.metadata-keys": {
     method: "GET",
     path: "/internal/v2/dashboard/account_numbers/metadata_keys",
+    flags: [MODE],
     description: "Get account number metadata keys (--mode)",
   },
 
@@ -351,59 +492,80 @@ export const routes: Record<string, RouteDefinition> = {
   "accounts.list": {
     method: "GET",
     path: "/internal/v2/dashboard/accounts",
+    pagination: "cursor",
+    flags: [MODE, LIMIT, STARTING_AFTER, str("description"), str("account_id"), str("entity_id")],
     description:
       "List accounts (--mode, --limit, --description, --account_id, --entity_id, etc.)",
   },
   "accounts.show": {
     method: "GET",
     path: "/internal/v2/dashboard/accounts/:id",
+    flags: [MODE],
     description: "Show account by ID (--mode)",
   },
   "accounts.create": {
     method: "POST",
     path: "/internal/v2/dashboard/accounts",
+    flags: [MODE, str("entity_id"), str("description")],
     description: "Create account (--mode, --entity_id, --description)",
   },
   "accounts.update": {
     method: "PATCH",
     path: "/internal/v2/dashboard/accounts/:id",
+    flags: [MODE, str("description")],
     description: "Update account (--mode, --description)",
   },
   "accounts.block": {
     method: "POST",
     path: "/internal/v2/dashboard/accounts/:id/block",
+    flags: [MODE],
     description: "Block account (--mode)",
   },
   "accounts.total-balance": {
     method: "GET",
     path: "/internal/v2/dashboard/accounts/total_balance",
+    flags: [MODE, str("currency")],
     description: "Get total balance (--mode, --currency)",
   },
   "accounts.movements": {
     method: "GET",
     path: "/internal/v2/dashboard/accounts/:id/movements",
+    pagination: "cursor",
+    flags: [MODE, LIMIT, STARTING_AFTER],
     description: "List account movements (--mode, --limit, etc.)",
   },
+  "accounts.movement": {
+    method: "GET",
+    path: "/internal/v2/dashboard/accounts/:account_id/movements/:id",
+    flags: [MODE],
+    description: "Show an account movement (--mode)",
+  },
 
   // ─── Entities ──────────────────────────────────────────────────────────────
   "entities.list": {
     method: "GET",
     path: "/internal/v2/dashboard/entities",
+    pagination: "cursor",
+    flags: [MODE, LIMIT, STARTING_AFTER, STATUS],
     description: "List entities (--mode, --limit, --status, etc.)",
   },
   "entities.list-minimal": {
     method: "GET",
     path: "/internal/v2/dashboard/entities/minimal",
+    pagination: "cursor",
+    flags: [MODE, LIMIT, STARTING_AFTER, STATUS],
     description: "List entities (minimal) (--mode, --limit, --status, etc.)",
   },
   "entities.show": {
     method: "GET",
     path: "/internal/v2/dashboard/entities/:id",
+    flags: [MODE],
     description: "Show entity by ID (--mode)",
   },
   "entities.create": {
     method: "POST",
     path: "/internal/v2/dashboard/entities",
+    flags: [MODE, str("holder_name"), str("holder_id")],
     description: "Create entity (--mode, --holder_name, --holder_id)",
   },
 
@@ -416,23 +578,27 @@ export const routes: Record<string, RouteDefinition> = {
   "organizations.create": {
     method: "POST",
     path: "/internal/v1/dashboard/organizations",
+    flags: [str("name", true), str("country")],
     description: "Create organization (--name, --country)",
   },
   "organizations.update": {
     method: "PUT",
     path: "/internal/v1/dashboard/organizations/:id",
+    flags: [{ name: "organization_data", type: "object" }],
     description:
       "Update organization (--organization_data.technical_email, --organization_data.name, etc.)",
   },
   "organizations.update-mfa": {
     method: "PATCH",
     path: "/internal/v1/dashboard/current_organization/mfa",
+    flags: [{ name: "requires_mfa", type: "boolean", required: true }],
     description: "Update MFA requirement (--requires_mfa)",
   },
   "organizations.update-ip-allowlist": {
     method: "PATCH",
     path: "/internal/v1/dashboard/organizations/:id/update_uses_ip_allowlist",
     queryFlags: ["mode"],
+    flags: [{ name: "uses_ip_allowlist", type: "boolean", required: true }, MODE],
     description: "Update IP allowlist setting (--uses_ip_allowlist, --mode)",
   },
 
@@ -445,12 +611,14 @@ export const routes: Record<string, RouteDefinition> = {
   "organization-users.create": {
     method: "POST",
     path: "/internal/v1/dashboard/organization_users",
+    flags: [str("name"), str("last_name"), str("email", true), str("organization_role"), str("dashboard_role_name")],
     description:
       "Create organization user (--name, --last_name, --email, --organization_role, --dashboard_role_name)",
   },
   "organization-users.update": {
     method: "PUT",
     path: "/internal/v1/dashboard/organization_users/:id",
+    flags: [{ name: "user_data", type: "object" }],
     description:
       "Update organization user (--user_data.name, --user_data.last_name, --user_data.organization_role, etc.)",
   },
@@ -467,6 +635,7 @@ export const routes: Record<string, RouteDefinition> = {
   "organization-users.resend-invitation": {
     method: "POST",
     path: "/internal/v1/dashboard/invitations/resend",
+    flags: [str("email", true)],
     description: "Resend invitation email (--email)",
   },
 
@@ -479,6 +648,7 @@ export const routes: Record<string, RouteDefinition> = {
   "setup-links.redeem": {
     method: "POST",
     path: "/internal/v1/dashboard/organizations/setup_links/:id/redeem",
+    flags: [str("organization_name")],
     description: "Redeem setup link (--organization_name)",
   },
 
@@ -486,21 +656,25 @@ export const routes: Record<string, RouteDefinition> = {
   "api-keys.list": {
     method: "GET",
     path: "/internal/v1/dashboard/api_keys",
+    flags: [MODE],
     description: "List API keys (--mode)",
   },
   "api-keys.create": {
     method: "POST",
     path: "/internal/v1/dashboard/api_keys",
+    flags: [MODE],
     description: "Create API key (--mode)",
   },
   "api-keys.roll": {
     method: "POST",
     path: "/internal/v1/dashboard/api_keys/:id/roll",
+    flags: [{ name: "delay_hours", type: "number" }, MODE],
     description: "Roll API key (--delay_hours, --mode)",
   },
   "api-keys.expire": {
     method: "POST",
     path: "/internal/v1/dashboard/api_keys/:id/expire",
+    flags: [MODE],
     description: "Expire API key (--mode)",
   },
 
@@ -513,6 +687,7 @@ export const routes: Record<string, RouteDefinition> = {
   "billing.update": {
     method: "PATCH",
     path: "/internal/v1/dashboard/billing/organization",
+    flags: [str("business_name"), str("business_address")],
     description:
       "Update billing organization (--billing_emails, --business_name, --business_address, etc.)",
   },
@@ -529,7 +704,8 @@ export const routes: Record<string, RouteDefinition> = {
   "billing.download-invoice": {
     method: "GET",
     path: "/internal/v1/dashboard/billing/invoices/download/:id",
-    description: "Download invoice files by folio",
+    description: "Download invoice files by folio (--out)",
+    responseType: "arraybuffer",
   },
   "billing.fiscal-regimes": {
     method: "GET",
@@ -558,39 +734,46 @@ export const routes: Record<string, RouteDefinition> = {
   "webhook-endpoints.list": {
     method: "GET",
     path: "/internal/v1/dashboard/webhook_endpoints",
+    flags: [MODE],
     description: "List webhook endpoints (--mode)",
   },
   "webhook-endpoints.show": {
     method: "GET",
     path: "/internal/v1/dashboard/webhook_endpoints/:id",
+    flags: [MODE],
     description: "Show webhook endpoint (--mode)",
   },
   "webhook-endpoints.create": {
     method: "POST",
     path: "/internal/v1/dashboard/webhook_endpoints",
     queryFlags: ["mode"],
+    flags: [str("name"), str("url", true), { name: "enabled_events", type: "array", required: true }, MODE],
     description: "Create webhook endpoint (--name, --url, --enabled_events, --mode)",
   },
   "webhook-endpoints.update": {
     method: "PUT",
     path: "/internal/v1/dashboard/webhook_endpoints/:id",
     queryFlags: ["mode"],
+    flags: [str("name"), str("url"), { name: "enabled_events", type: "array" }, { name: "disabled", type: "boolean" }, MODE],
     description: "Update webhook endpoint (--name, --url, --enabled_events, --disabled, --mode)",
   },
   "webhook-endpoints.delete": {
     method: "DELETE",
     path: "/internal/v1/dashboard/webhook_endpoints/:id",
+    flags: [MODE],
     description: "Delete webhook endpoint (--mode)",
   },
   "webhook-endpoints.secret": {
     method: "GET",
     path: "/internal/v1/dashboard/webhook_endpoints/:id/secret",
+    flags: [MODE],
     description: "Get webhook endpoint secret (--mode)",
   },
   "webhook-endpoints.test": {
     method: "POST",
     path: "/internal/v1/dashboard/webhook_endpoints/:id/test",
     queryFlags: ["mode"],
+    flags: [str("event", true), MODE],
     description: "Send test webhook (--event, --mode)",
   },
 
@@ -598,11 +781,14 @@ export const routes: Record<string, RouteDefinition> = {
   "webhook-events.list": {
     method: "GET",
     path: "/internal/v1/dashboard/webhook_event_messages",
+    pagination: "cursor",
+    flags: [MODE, LIMIT, STARTING_AFTER],
     description: "List webhook event messages (--mode, --limit, etc.)",
   },
   "webhook-events.show": {
     method: "GET",
     path: "/internal/v1/dashboard/webhook_event_messages/:id",
+    flags: [MODE],
     description: "Show webhook event message (--mode)",
   },
 
@@ -610,6 +796,7 @@ export const routes: Record<string, RouteDefinition> = {
   "banks.list": {
     method: "GET",
     path: "/internal/v1/dashboard/banks",
+    flags: [{ name: "country", type: "string", enum: ["CL", "MX"] }],
     description: "List banks (--country)",
   },
 
@@ -631,12 +818,15 @@ export const routes: Record<string, RouteDefinition> = {
   "refunds.create": {
     method: "POST",
     path: "/internal/v1/dashboard/refunds",
+    idempotent: true,
     queryFlags: ["mode"],
+    flags: [str("resource_type", true), str("resource_id", true), { name: "amount", type: "number" }, MODE],
     description: "Create refund (--resource_type, --resource_id, --amount, --mode)",
   },
   "refunds.cancel": {
     method: "POST",
     path: "/internal/v1/dashboard/refunds/:id/cancel",
+    flags: [MODE],
     description: "Cancel refund (--mode)",
   },
 
@@ -644,32 +834,40 @@ export const routes: Record<string, RouteDefinition> = {
   "exports.show": {
     method: "GET",
     path: "/internal/v1/dashboard/exports/:id",
+    flags: [MODE],
     description: "Show export by ID (--mode)",
   },
   "exports.show-v2": {
     method: "GET",
     path: "/internal/v2/dashboard/exports/:id",
+    flags: [MODE],
     description: "Show export by ID v2 (--mode)",
   },
   "exports.create": {
     method: "POST",
     path: "/internal/v1/dashboard/payment_intents/export",
-    description: "Create payment export (--product, --file_type, --export_format, --mode)",
+    flags: [str("product"), str("file_type"), str("export_format"), MODE],
+    pollRoute: "exports.show",
+    description: "Create payment export (--product, --file_type, --export_format, --mode, --wait, --out)",
   },
   "exports.create-transfers": {
     method: "POST",
     path: "/internal/v2/dashboard/transfers/export",
-    description: "Create transfers export (--product, --file_type, --export_format, --mode)",
+    flags: [str("product"), str("file_type"), str("export_format"), MODE],
+    pollRoute: "exports.show-v2",
+    description: "Create transfers export (--product, --file_type, --export_format, --mode, --wait, --out)",
   },
   "exports.create-transfer-intents": {
     method: "POST",
     path: "/internal/v2/dashboard/transfer_intents/export",
-    description: "Create transfer intents export",
+    pollRoute: "exports.show-v2",
+    description: "Create transfer intents export (--wait, --out)",
   },
   "exports.create-account-movements": {
     method: "POST",
     path: "/internal/v2/dashboard/movements/export",
-    description: "Create account movements export",
+    pollRoute: "exports.show-v2",
+    description: "Create account movements export (--wait, --out)",
   },
 
   // ─── Invitations ───────────────────────────────────────────────────────────
@@ -688,16 +886,19 @@ export const routes: Record<string, RouteDefinition> = {
   "cidr-blocks.list": {
     method: "GET",
     path: "/internal/v1/dashboard/allowed_cidr_blocks",
+    flags: [MODE],
     description: "List allowed CIDR blocks (--mode)",
   },
   "cidr-blocks.create": {
     method: "POST",
     path: "/internal/v1/dashboard/allowed_cidr_blocks",
+    flags: [MODE, str("cidr_block", true)],
     description: "Create allowed CIDR block (--mode, --cidr_block)",
   },
   "cidr-blocks.delete": {
     method: "DELETE",
     path: "/internal/v1/dashboard/allowed_cidr_blocks/:id",
+    flags: [MODE],
     description: "Delete allowed CIDR block (--mode)",
   },
 
@@ -705,11 +906,18 @@ export const routes: Record<string, RouteDefinition> = {
   "jws-keys.list": {
     method: "GET",
     path: "/internal/v1/dashboard/jws_public_keys",
+    flags: [MODE],
     description: "List JWS public keys (--mode)",
   },
   "jws-keys.create": {
     method: "POST",
     path: "/internal/v1/dashboard/jws_public_keys",
+    flags: [
+      MODE,
+      str("key_text", true),
+      OTP_CODE,
+      { name: "previous_key_expiration_delay_hours", type: "number" },
+    ],
     description:
       "Create JWS public key (--mode, --key_text, --otp_code, --previous_key_expiration_delay_hours)",
   },
@@ -718,6 +926,7 @@ export const routes: Record<string, RouteDefinition> = {
   "shopify.create": {
     method: "POST",
     path: "/internal/v1/dashboard/shopify/shops",
+    flags: [str("shop_domain", true), str("country")],
     description: "Create Shopify shop (--shop_domain, --country)",
   },
 
@@ -730,6 +939,7 @@ export const routes: Record<string, RouteDefinition> = {
   "otps.validate": {
     method: "POST",
     path: "/internal/v1/dashboard/mfa/otp/validate",
+    flags: [str("code", true)],
     description: "Validate OTP (--code)",
   },
   "otps.deactivate": {
@@ -749,6 +959,8 @@ export const routes: Record<string, RouteDefinition> = {
   "debt-collection.organizations": {
     method: "GET",
     path: "/internal/v1/dashboard/debt_collection/organizations",
+    pagination: "page",
+    flags: [PAGE, PER_PAGE],
     description: "List debt collection organizations (--page, --per_page)",
   },
   "debt-collection.initiate-commitment": {
@@ -761,6 +973,14 @@ export const routes: Record<string, RouteDefinition> = {
   "clarifications.create": {
     method: "POST",
     path: "/internal/v1/dashboard/clarifications",
+    flags: [
+      str("default_title"),
+      str("movement_id"),
+      MODE,
+      str("clarification_type"),
+      str("clarification_reason"),
+      str("affected_resource"),
+    ],
     description:
       "Create clarification (--default_title, --movement_id, --mode, --clarification_type, --clarification_reason, --affected_resource)",
   },
@@ -792,6 +1012,7 @@ export function getAvailableCommands(): string[] {
 
 export interface GroupedAction {
   action: string;
+  /** "fintoc <resource> <action>" followed by the positional signature */
   command: string;
   method: string;
   description: string;
@@ -811,9 +1032,10 @@ export function getGroupedCommands(): Record<string, GroupedAction[]> {
       grouped[resource] = [];
     }
 
+    const signature = routeSignature(route);
     grouped[resource].push({
       action,
-      command: `fintoc ${resource} ${action}`,
+      command: `fintoc ${resource} ${action}${signature ? ` ${signature}` : ""}`,
       method: route.method,
       description: route.description || "",
     });
@@ -884,7 +1106,7 @@ export function renderResourceHelpText(resource: string, actions: GroupedAction[
   // Find the longest full command for alignment
   let maxCmdLen = 0;
   for (const a of actions) {
-    const len = `fintoc ${resource} ${a.action}`.length;
+    const len = a.command.length;
     if (len > maxCmdLen) maxCmdLen = len;
   }
   const colWidth = maxCmdLen + 6; // 2 indent + 4 gutter
@@ -899,8 +1121,8 @@ export function renderResourceHelpText(resource: string, actions: GroupedAction[
   lines.push("");
 
   for (const a of actions) {
-    const cmd = `  ${CYAN}fintoc ${resource} ${a.action}${R}`;
-    const rawLen = `  fintoc ${resource} ${a.action}`.length;
+    const cmd = `  ${CYAN}${a.command}${R}`;
+    const rawLen = `  ${a.command}`.length;
     const padding = " ".repeat(Math.max(colWidth - rawLen, 2));
     lines.push(`${cmd}${padding}${YELLOW}[${a.method}]${R}  ${DIM}${a.description}${R}`);
   }
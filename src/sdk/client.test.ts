@@ -0,0 +1,28 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createFintoc, methodName } from "./client.ts";
+import { routes } from "../routes.ts";
+import { ejectCassette, useCassette } from "../cassette.ts";
+
+const CASSETTE = new URL("../../fixtures/transfers.json", import.meta.url).pathname;
+
+describe("createFintoc", () => {
+  const fintoc = createFintoc({ token: "token", mode: "test" });
+
+  beforeAll(() => useCassette(CASSETTE, "replay"));
+  afterAll(() => ejectCassette());
+
+  test("has a method for every route", () => {
+    for (const key of Object.keys(routes)) {
+      const [resource = key, action = ""] = key.split(".");
+      expect(fintoc).toHaveProperty([methodName(resource), methodName(action)]);
+    }
+  });
+
+  test("methods and request() send the same request", async () => {
+    const transfers = await fintoc.transfers.list({ limit: 2 });
+    expect(transfers.map((t) => t.id)).toEqual(["tr_000001", "tr_000002"]);
+
+    const transfer = await fintoc.request("transfers.show", { id: "tr_000001" });
+    expect(transfer.id).toBe("tr_000001");
+  });
+});
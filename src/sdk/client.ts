@@ -0,0 +1,118 @@
+/**
+ * Typed client for scripts and the OpenAI tools:
+ *
+ *   const fintoc = createFintoc({ token, mode: "live" });
+ *   const transfers = await fintoc.transfers.list({ limit: 10 });
+ *   const movement = await fintoc.accounts.movement({ account_id: "acc_123", id: "mov_456" });
+ *
+ * Method names and param types come from routes.generated.ts. Requests
+ * are built exactly as the CLI builds them (flag defaults and validation,
+ * path placeholders, query/body placement, idempotency keys) and sent
+ * with apiRequest(). Non-2xx responses throw FintocApiError.
+ */
+
+import { routes } from "../routes.ts";
+import { apiRequest } from "../client.ts";
+import { prepareRouteRequest } from "../dispatcher.ts";
+import { applyFlagFallbacks } from "../flags.ts";
+import { fetchAllPages, DEFAULT_MAX_PAGES } from "../pagination.ts";
+import { buildFintocClient } from "./routes.generated.ts";
+import type { FintocClient, Params, RouteCaller, RouteName, RouteResponses } from "./routes.generated.ts";
+import type { FileResponse, Mode, RequestOptions } from "./types.ts";
+
+export interface FintocOptions {
+  /** Session token, as printed by "fintoc auth token" */
+  token: string;
+  /** Used by routes that take a mode, unless the call passes one */
+  mode?: Mode;
+  /** Sent as current_organization_id, unless the call passes one */
+  organizationId?: string;
+}
+
+export type Fintoc = FintocClient & {
+  /** Call a route by key, e.g. request("transfers.list", { limit: 5 }) */
+  request<K extends RouteName>(name: K, params?: Params<K>, options?: RequestOptions): Promise<RouteResponses[K]>;
+};
+
+/** Thrown when the API answers with a non-2xx status. */
+export class FintocApiError extends Error {
+  readonly route: string;
+  readonly status: number;
+  /** Parsed error body */
+  readonly data: unknown;
+
+  constructor(route: string, status: number, data: unknown) {
+    super(`${route} failed with HTTP ${status}: ${errorMessage(data)}`);
+    this.name = "FintocApiError";
+    this.route = route;
+    this.status = status;
+    this.data = data;
+  }
+}
+
+function errorMessage(data: unknown): string {
+  const error = data && typeof data === "object" ? (data as { error?: unknown }).error : undefined;
+  if (typeof error === "string") return error;
+  if (error && typeof error === "object" && typeof (error as { message?: unknown }).message === "string") {
+    return (error as { message: string }).message;
+  }
+  return typeof data === "string" ? data : JSON.stringify(data);
+}
+
+/** "create-transfers" -> "createTransfers", "webhook-endpoints" -> "webhookEndpoints" */
+export function methodName(name: string): string {
+  return name.replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase());
+}
+
+async function callRoute(
+  client: FintocOptions,
+  name: string,
+  params: object = {},
+  options: RequestOptions = {}
+): Promise<unknown> {
+  const route = routes[name];
+  if (!route) throw new Error(`Unknown route: ${name}`);
+  const [resource = name, action = ""] = name.split(".");
+
+  const flags: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) flags[key] = value;
+  }
+  applyFlagFallbacks(flags, { mode: client.mode, current_organization_id: client.organizationId }, route);
+  const prepared = prepareRouteRequest({ resource, action, flags, args: [] }, route, {
+    token: client.token,
+    idempotencyKey: options.idempotencyKey,
+    timeoutMs: options.timeoutMs,
+  });
+  if (Array.isArray(prepared)) {
+    throw new Error(`Invalid params for ${name}:\n  ${prepared.join("\n  ")}`);
+  }
+  const { query, requestFor } = prepared;
+
+  if (options.all && !route.pagination) {
+    throw new Error(`${name} is not a paginated list; "all" is not supported.`);
+  }
+  const response = options.all
+    ? await fetchAllPages(route, query, (pageQuery) => apiRequest(requestFor(pageQuery)), options.maxPages ?? DEFAULT_MAX_PAGES)
+    : await apiRequest(requestFor(query));
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new FintocApiError(name, response.status, response.data);
+  }
+  if (route.responseType === "arraybuffer") {
+    const file: FileResponse = { bytes: Buffer.from(String(response.data), "base64"), headers: response.headers };
+    return file;
+  }
+  return response.data;
+}
+
+/**
+ * Create a client bound to a session token. Every route in routes.ts is
+ * available as fintoc.<resource>.<action>(), camelCased.
+ */
+export function createFintoc(options: FintocOptions): Fintoc {
+  // callRoute() returns the parsed body; RouteResponses describes what each route sends
+  const request: RouteCaller = (name, params, requestOptions) =>
+    callRoute(options, name, params, requestOptions) as Promise<RouteResponses[typeof name]>;
+  return { ...buildFintocClient(request), request };
+}
@@ -0,0 +1,10 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { GENERATED_PATH, renderSdk } from "./generate.ts";
+
+describe("renderSdk", () => {
+  test("matches the committed routes.generated.ts", () => {
+    // On failure, run "bun run sdk:generate" and commit the result
+    expect(renderSdk()).toBe(readFileSync(GENERATED_PATH, "utf8"));
+  });
+});
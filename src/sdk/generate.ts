@@ -0,0 +1,181 @@
+/**
+ * Generates src/sdk/routes.generated.ts from the route table: a params
+ * type and a response type per route, the FintocClient interface
+ * (`fintoc.transfers.list(params)`) and buildFintocClient(), which
+ * createFintoc() uses to implement it.
+ *
+ *   bun run sdk:generate            rewrite the file
+ *   bun run sdk:generate --check    exit 1 when it is out of date
+ */
+
+import { routes, pathParams } from "../routes.ts";
+import type { FlagDefinition, RouteDefinition } from "../routes.ts";
+import { methodName } from "./client.ts";
+
+export const GENERATED_PATH = new URL("./routes.generated.ts", import.meta.url).pathname;
+
+/** Response model per resource; see types.ts. */
+const RESOURCE_MODELS: Record<string, string> = {
+  user: "User",
+  organizations: "Organization",
+  accounts: "Account",
+  transfers: "Transfer",
+  "transfer-intents": "TransferIntent",
+  "transfer-batches": "TransferBatch",
+  recipients: "Recipient",
+  "webhook-endpoints": "WebhookEndpoint",
+  banks: "Bank",
+  exports: "Export",
+};
+
+/** Routes whose response does not follow the resource's model. */
+const RESPONSE_OVERRIDES: Record<string, string> = {
+  "accounts.movements": "Movement[]",
+  "accounts.movement": "Movement",
+  "accounts.total-balance": "Balance",
+  "transfer-batches.list-intents": "TransferIntent[]",
+  "exports.show-v2": "Export",
+};
+
+const MODEL_ACTIONS = new Set(["show", "create", "update"]);
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function flagType(def: FlagDefinition): string {
+  switch (def.type) {
+    case "string":
+      return def.enum ? def.enum.map((value) => JSON.stringify(value)).join(" | ") : "string";
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "array":
+      return "unknown[]";
+    case "object":
+      return "Record<string, unknown>";
+  }
+}
+
+/**
+ * Params of one route: path placeholders (required) and declared flags.
+ * Routes that declare no flags pass anything through, as the CLI does.
+ */
+function paramsType(route: RouteDefinition): { type: string; required: boolean } {
+  const placeholders = pathParams(route.path);
+  const fields = placeholders.map((name) => `${propertyName(name)}: string`);
+  let required = placeholders.length > 0;
+
+  for (const def of route.flags ?? []) {
+    if (placeholders.includes(def.name)) continue;
+    const optional = !def.required || def.default !== undefined;
+    if (!optional) required = true;
+    fields.push(`${propertyName(def.name)}${optional ? "?" : ""}: ${flagType(def)}`);
+  }
+  if (!route.flags?.length) fields.push("[flag: string]: unknown");
+
+  return { type: `{ ${fields.join("; ")} }`, required };
+}
+
+function responseType(key: string, route: RouteDefinition): string {
+  if (route.responseType === "arraybuffer") return "FileResponse";
+  const override = RESPONSE_OVERRIDES[key];
+  if (override) return override;
+  if (route.pollRoute) return "Export";
+
+  const [resource = "", action = ""] = key.split(".");
+  const model = RESOURCE_MODELS[resource] ?? "ApiRecord";
+  if (route.pagination || action === "list") return `${model}[]`;
+  return MODEL_ACTIONS.has(action) ? model : "unknown";
+}
+
+export function renderSdk(): string {
+  const entries = Object.entries(routes);
+  const byResource = new Map<string, [string, string, boolean][]>();
+  const params: string[] = [];
+  const responses: string[] = [];
+
+  for (const [key, route] of entries) {
+    const [resource = key, action = ""] = key.split(".");
+    const { type, required } = paramsType(route);
+    params.push(`  ${JSON.stringify(key)}: ${type};`);
+    responses.push(`  ${JSON.stringify(key)}: ${responseType(key, route)};`);
+    byResource.set(resource, [...(byResource.get(resource) ?? []), [key, action, required]]);
+  }
+
+  const factory = [...byResource].map(([resource, actions]) => {
+    const methods = actions.map(([key, action]) =>
+      `      ${propertyName(methodName(action))}: (params, options) => call(${JSON.stringify(key)}, params, options),`
+    );
+    return `    ${propertyName(methodName(resource))}: {\n${methods.join("\n")}\n    },`;
+  });
+
+  const resources = [...byResource].map(([resource, actions]) => {
+    const methods = actions.map(([key, action, required]) => {
+      const description = routes[key]?.description;
+      const doc = description ? `    /** ${description.replace(/\*\//g, "*\\/")} */\n` : "";
+      const k = JSON.stringify(key);
+      return `${doc}    ${propertyName(methodName(action))}(params${required ? "" : "?"}: Params<${k}>, options?: RequestOptions): Promise<RouteResponses[${k}]>;`;
+    });
+    return `  ${propertyName(methodName(resource))}: {\n${methods.join("\n")}\n  };`;
+  });
+
+  const models = [...Object.values(RESOURCE_MODELS), ...Object.values(RESPONSE_OVERRIDES)]
+    .map((model) => model.replace(/\[\]$/, ""))
+    .filter((model, index, all) => all.indexOf(model) === index);
+
+  return `// Generated by src/sdk/generate.ts from src/routes.ts. Do not edit by hand:
+// run "bun run sdk:generate" after changing the route table.
+
+import type {
+${[...models, "ApiRecord", "CommonParams", "FileResponse", "RequestOptions"].sort().map((name) => `  ${name},`).join("\n")}
+} from "./types.ts";
+
+/** Params per route key: path placeholders and declared flags. */
+export interface RouteParams {
+${params.join("\n")}
+}
+
+/** Response data per route key. */
+export interface RouteResponses {
+${responses.join("\n")}
+}
+
+export type RouteName = keyof RouteParams;
+
+export type Params<K extends RouteName> = RouteParams[K] & CommonParams;
+
+export interface FintocClient {
+${resources.join("\n")}
+}
+
+/** Sends one route; see callRoute() in client.ts. */
+export type RouteCaller = <K extends RouteName>(name: K, params?: Params<K>, options?: RequestOptions) => Promise<RouteResponses[K]>;
+
+/** Every FintocClient method, bound to its route key. */
+export function buildFintocClient(call: RouteCaller): FintocClient {
+  return {
+${factory.join("\n")}
+  };
+}
+`;
+}
+
+if (import.meta.main) {
+  const source = renderSdk();
+  const current = await Bun.file(GENERATED_PATH).text().catch(() => "");
+
+  if (process.argv.includes("--check")) {
+    if (current !== source) {
+      console.error(`${GENERATED_PATH} is out of date. Run "bun run sdk:generate".`);
+      process.exit(1);
+    }
+    console.log(`${GENERATED_PATH} is up to date.`);
+  } else if (current !== source) {
+    await Bun.write(GENERATED_PATH, source);
+    console.log(`Wrote ${GENERATED_PATH} (${Object.keys(routes).length} routes)`);
+  } else {
+    console.log(`${GENERATED_PATH} is up to date.`);
+  }
+}
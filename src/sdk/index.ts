@@ -0,0 +1,3 @@
+export { createFintoc, FintocApiError, type Fintoc, type FintocOptions } from "./client.ts";
+export type { FintocClient, Params, RouteName, RouteParams, RouteResponses } from "./routes.generated.ts";
+export type * from "./types.ts";
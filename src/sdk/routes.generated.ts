@@ -0,0 +1,844 @@
+// Generated by src/sdk/generate.ts from src/routes.ts. Do not edit by hand:
+// run "bun run sdk:generate" after changing the route table.
+
+import type {
+  Account,
+  ApiRecord,
+  Balance,
+  Bank,
+  CommonParams,
+  Export,
+  FileResponse,
+  Movement,
+  Organization,
+  Recipient,
+  RequestOptions,
+  Transfer,
+  TransferBatch,
+  TransferIntent,
+  User,
+  WebhookEndpoint,
+} from "./types.ts";
+
+/** Params per route key: path placeholders and declared flags. */
+export interface RouteParams {
+  "user.show": { [flag: string]: unknown };
+  "user.create": { [flag: string]: unknown };
+  "user.update": { name?: string; last_name?: string };
+  "user.mfa-status": { [flag: string]: unknown };
+  "user.default-org": { default_organization_id: string };
+  "user.login-strategy": { email: string };
+  "user.change-password": { email: string };
+  "sessions.create": { jwt: string };
+  "sessions.validate": { [flag: string]: unknown };
+  "sessions.activate": { code: string; should_trust_device?: boolean };
+  "sessions.expire": { [flag: string]: unknown };
+  "sessions.extend": { [flag: string]: unknown };
+  "sessions.ping": { [flag: string]: unknown };
+  "transfers.list": { mode?: "live" | "test"; limit?: number; starting_after?: string; status?: string };
+  "transfers.show": { id: string; mode?: "live" | "test" };
+  "transfers.return": { transfer_id: string; mode?: "live" | "test"; otp_code?: string };
+  "transfers.simulate-receive": { amount_units?: number; amount_currency?: string; number?: string };
+  "transfers.metadata-keys": { mode?: "live" | "test" };
+  "transfers.receipt": { id: string; mode?: "live" | "test" };
+  "transfer-intents.list": { mode?: "live" | "test"; limit?: number; starting_after?: string; status?: string; account_id?: string };
+  "transfer-intents.create": { account_id: string; amount?: number; amount_cents?: number; currency?: "CLP" | "MXN"; amount_currency?: "CLP" | "MXN"; counterparty?: Record<string, unknown>; metadata?: Record<string, unknown>; comment?: string; otp_code?: string };
+  "transfer-intents.batch-review": { mode?: "live" | "test"; transfer_intent_ids: unknown[]; decision: string; otp_code?: string };
+  "transfer-intents.approvable-count": { mode?: "live" | "test" };
+  "transfer-batches.list": { mode?: "live" | "test"; limit?: number; starting_after?: string; status?: string };
+  "transfer-batches.show": { id: string; mode?: "live" | "test" };
+  "transfer-batches.create": { description?: string; currency?: "CLP" | "MXN"; rows: unknown[]; otp_code?: string; mode?: "live" | "test" };
+  "transfer-batches.list-intents": { id: string; mode?: "live" | "test"; limit?: number; starting_after?: string };
+  "transfer-batches.review": { id: string; mode?: "live" | "test"; decision: string; otp_code?: string };
+  "transfer-batches.approvable-count": { mode?: "live" | "test" };
+  "payments.list": { mode?: "live" | "test"; limit?: number; starting_after?: string };
+  "payments.show": { id: string; mode?: "live" | "test" };
+  "payments.update": { id: string; customer_email?: string; mode?: "live" | "test" };
+  "payments.export-email": { [flag: string]: unknown };
+  "payments.metadata-keys": { mode?: "live" | "test" };
+  "payments-onboarding.finalize": { [flag: string]: unknown };
+  "payments-onboarding.plan-fees": { [flag: string]: unknown };
+  "payouts.list": { mode?: "live" | "test" };
+  "payouts.show": { id: string; [flag: string]: unknown };
+  "payouts.summary": { mode?: "live" | "test" };
+  "payouts.recipient-accounts": { [flag: string]: unknown };
+  "payouts.default-recipient-account": { [flag: string]: unknown };
+  "payouts.upsert-default-recipient-account": { account_number?: string; holder_id?: string; institution_id?: string };
+  "recipients.list": { mode?: "live" | "test"; search?: string; holder_type?: string };
+  "recipients.create": { mode?: "live" | "test"; alias?: string; holder_name?: string; holder_id?: string; account_number?: string };
+  "recipients.update": { id: string; mode?: "live" | "test"; alias?: string; holder_name?: string };
+  "recipients.delete": { id: string; mode?: "live" | "test" };
+  "links.list": { mode?: "live" | "test"; institution_id?: string; page?: number; per_page?: number };
+  "links.show": { id: string; mode?: "live" | "test" };
+  "links.update": { id: string; link_data?: Record<string, unknown>; mode?: "live" | "test" };
+  "links.delete": { id: string; mode?: "live" | "test" };
+  "links.regenerate": { id: string; mode?: "live" | "test" };
+  "links.bank-accounts": { id: string; mode?: "live" | "test"; page?: number; per_page?: number };
+  "account-numbers.list": { mode?: "live" | "test" };
+  "account-numbers.create": { mode?: "live" | "test"; account_id?: string; description?: string; metadata?: Record<string, unknown>; options?: Record<string, unknown> };
+  "account-numbers.update": { id: string; mode?: "live" | "test"; description?: string; metadata?: Record<string, unknown>; status?: string; options?: Record<string, unknown> };
+  "account-numbers.metadata-keys": { mode?: "live" | "test" };
+  "accounts.list": { mode?: "live" | "test"; limit?: number; starting_after?: string; description?: string; account_id?: string; entity_id?: string };
+  "accounts.show": { id: string; mode?: "live" | "test" };
+  "accounts.create": { mode?: "live" | "test"; entity_id?: string; description?: string };
+  "accounts.update": { id: string; mode?: "live" | "test"; description?: string };
+  "accounts.block": { id: string; mode?: "live" | "test" };
+  "accounts.total-balance": { mode?: "live" | "test"; currency?: string };
+  "accounts.movements": { id: string; mode?: "live" | "test"; limit?: number; starting_after?: string };
+  "accounts.movement": { account_id: string; id: string; mode?: "live" | "test" };
+  "entities.list": { mode?: "live" | "test"; limit?: number; starting_after?: string; status?: string };
+  "entities.list-minimal": { mode?: "live" | "test"; limit?: number; starting_after?: string; status?: string };
+  "entities.show": { id: string; mode?: "live" | "test" };
+  "entities.create": { mode?: "live" | "test"; holder_name?: string; holder_id?: string };
+  "organizations.show": { [flag: string]: unknown };
+  "organizations.create": { name: string; country?: string };
+  "organizations.update": { id: string; organization_data?: Record<string, unknown> };
+  "organizations.update-mfa": { requires_mfa: boolean };
+  "organizations.update-ip-allowlist": { id: string; uses_ip_allowlist: boolean; mode?: "live" | "test" };
+  "organization-users.list": { [flag: string]: unknown };
+  "organization-users.create": { name?: string; last_name?: string; email: string; organization_role?: string; dashboard_role_name?: string };
+  "organization-users.update": { id: string; user_data?: Record<string, unknown> };
+  "organization-users.delete": { id: string; [flag: string]: unknown };
+  "organization-users.current": { [flag: string]: unknown };
+  "organization-users.resend-invitation": { email: string };
+  "setup-links.show": { id: string; [flag: string]: unknown };
+  "setup-links.redeem": { id: string; organization_name?: string };
+  "api-keys.list": { mode?: "live" | "test" };
+  "api-keys.create": { mode?: "live" | "test" };
+  "api-keys.roll": { id: string; delay_hours?: number; mode?: "live" | "test" };
+  "api-keys.expire": { id: string; mode?: "live" | "test" };
+  "billing.show": { [flag: string]: unknown };
+  "billing.update": { business_name?: string; business_address?: string };
+  "billing.upsert": { [flag: string]: unknown };
+  "billing.invoices": { [flag: string]: unknown };
+  "billing.download-invoice": { id: string; [flag: string]: unknown };
+  "billing.fiscal-regimes": { [flag: string]: unknown };
+  "analytics.payments": { [flag: string]: unknown };
+  "analytics.refunds": { [flag: string]: unknown };
+  "analytics.payment-methods": { [flag: string]: unknown };
+  "webhook-endpoints.list": { mode?: "live" | "test" };
+  "webhook-endpoints.show": { id: string; mode?: "live" | "test" };
+  "webhook-endpoints.create": { name?: string; url: string; enabled_events: unknown[]; mode?: "live" | "test" };
+  "webhook-endpoints.update": { id: string; name?: string; url?: string; enabled_events?: unknown[]; disabled?: boolean; mode?: "live" | "test" };
+  "webhook-endpoints.delete": { id: string; mode?: "live" | "test" };
+  "webhook-endpoints.secret": { id: string; mode?: "live" | "test" };
+  "webhook-endpoints.test": { id: string; event: string; mode?: "live" | "test" };
+  "webhook-events.list": { mode?: "live" | "test"; limit?: number; starting_after?: string };
+  "webhook-events.show": { id: string; mode?: "live" | "test" };
+  "banks.list": { country?: "CL" | "MX" };
+  "charges.list": { [flag: string]: unknown };
+  "subscriptions.list": { [flag: string]: unknown };
+  "refunds.create": { resource_type: string; resource_id: string; amount?: number; mode?: "live" | "test" };
+  "refunds.cancel": { id: string; mode?: "live" | "test" };
+  "exports.show": { id: string; mode?: "live" | "test" };
+  "exports.show-v2": { id: string; mode?: "live" | "test" };
+  "exports.create": { product?: string; file_type?: string; export_format?: string; mode?: "live" | "test" };
+  "exports.create-transfers": { product?: string; file_type?: string; export_format?: string; mode?: "live" | "test" };
+  "exports.create-transfer-intents": { [flag: string]: unknown };
+  "exports.create-account-movements": { [flag: string]: unknown };
+  "invitations.show": { id: string; [flag: string]: unknown };
+  "invitations.accept": { id: string; [flag: string]: unknown };
+  "cidr-blocks.list": { mode?: "live" | "test" };
+  "cidr-blocks.create": { mode?: "live" | "test"; cidr_block: string };
+  "cidr-blocks.delete": { id: string; mode?: "live" | "test" };
+  "jws-keys.list": { mode?: "live" | "test" };
+  "jws-keys.create": { mode?: "live" | "test"; key_text: string; otp_code?: string; previous_key_expiration_delay_hours?: number };
+  "shopify.create": { shop_domain: string; country?: string };
+  "otps.create": { [flag: string]: unknown };
+  "otps.validate": { code: string };
+  "otps.deactivate": { [flag: string]: unknown };
+  "trusted-devices.revoke-all": { [flag: string]: unknown };
+  "debt-collection.organizations": { page?: number; per_page?: number };
+  "debt-collection.initiate-commitment": { id: string; [flag: string]: unknown };
+  "clarifications.create": { default_title?: string; movement_id?: string; mode?: "live" | "test"; clarification_type?: string; clarification_reason?: string; affected_resource?: string };
+  "roles.list": { [flag: string]: unknown };
+  "policies.list": { [flag: string]: unknown };
+}
+
+/** Response data per route key. */
+export interface RouteResponses {
+  "user.show": User;
+  "user.create": User;
+  "user.update": User;
+  "user.mfa-status": unknown;
+  "user.default-org": unknown;
+  "user.login-strategy": unknown;
+  "user.change-password": unknown;
+  "sessions.create": ApiRecord;
+  "sessions.validate": unknown;
+  "sessions.activate": unknown;
+  "sessions.expire": unknown;
+  "sessions.extend": unknown;
+  "sessions.ping": unknown;
+  "transfers.list": Transfer[];
+  "transfers.show": Transfer;
+  "transfers.return": unknown;
+  "transfers.simulate-receive": unknown;
+  "transfers.metadata-keys": unknown;
+  "transfers.receipt": FileResponse;
+  "transfer-intents.list": TransferIntent[];
+  "transfer-intents.create": TransferIntent;
+  "transfer-intents.batch-review": unknown;
+  "transfer-intents.approvable-count": unknown;
+  "transfer-batches.list": TransferBatch[];
+  "transfer-batches.show": TransferBatch;
+  "transfer-batches.create": TransferBatch;
+  "transfer-batches.list-intents": TransferIntent[];
+  "transfer-batches.review": unknown;
+  "transfer-batches.approvable-count": unknown;
+  "payments.list": ApiRecord[];
+  "payments.show": ApiRecord;
+  "payments.update": ApiRecord;
+  "payments.export-email": unknown;
+  "payments.metadata-keys": unknown;
+  "payments-onboarding.finalize": unknown;
+  "payments-onboarding.plan-fees": unknown;
+  "payouts.list": ApiRecord[];
+  "payouts.show": ApiRecord;
+  "payouts.summary": unknown;
+  "payouts.recipient-accounts": unknown;
+  "payouts.default-recipient-account": unknown;
+  "payouts.upsert-default-recipient-account": unknown;
+  "recipients.list": Recipient[];
+  "recipients.create": Recipient;
+  "recipients.update": Recipient;
+  "recipients.delete": unknown;
+  "links.list": ApiRecord[];
+  "links.show": ApiRecord;
+  "links.update": ApiRecord;
+  "links.delete": unknown;
+  "links.regenerate": unknown;
+  "links.bank-accounts": ApiRecord[];
+  "account-numbers.list": ApiRecord[];
+  "account-numbers.create": ApiRecord;
+  "account-numbers.update": ApiRecord;
+  "account-numbers.metadata-keys": unknown;
+  "accounts.list": Account[];
+  "accounts.show": Account;
+  "accounts.create": Account;
+  "accounts.update": Account;
+  "accounts.block": unknown;
+  "accounts.total-balance": Balance;
+  "accounts.movements": Movement[];
+  "accounts.movement": Movement;
+  "entities.list": ApiRecord[];
+  "entities.list-minimal": ApiRecord[];
+  "entities.show": ApiRecord;
+  "entities.create": ApiRecord;
+  "organizations.show": Organization;
+  "organizations.create": Organization;
+  "organizations.update": Organization;
+  "organizations.update-mfa": unknown;
+  "organizations.update-ip-allowlist": unknown;
+  "organization-users.list": ApiRecord[];
+  "organization-users.create": ApiRecord;
+  "organization-users.update": ApiRecord;
+  "organization-users.delete": unknown;
+  "organization-users.current": unknown;
+  "organization-users.resend-invitation": unknown;
+  "setup-links.show": ApiRecord;
+  "setup-links.redeem": unknown;
+  "api-keys.list": ApiRecord[];
+  "api-keys.create": ApiRecord;
+  "api-keys.roll": unknown;
+  "api-keys.expire": unknown;
+  "billing.show": ApiRecord;
+  "billing.update": ApiRecord;
+  "billing.upsert": unknown;
+  "billing.invoices": unknown;
+  "billing.download-invoice": FileResponse;
+  "billing.fiscal-regimes": unknown;
+  "analytics.payments": unknown;
+  "analytics.refunds": unknown;
+  "analytics.payment-methods": unknown;
+  "webhook-endpoints.list": WebhookEndpoint[];
+  "webhook-endpoints.show": WebhookEndpoint;
+  "webhook-endpoints.create": WebhookEndpoint;
+  "webhook-endpoints.update": WebhookEndpoint;
+  "webhook-endpoints.delete": unknown;
+  "webhook-endpoints.secret": unknown;
+  "webhook-endpoints.test": unknown;
+  "webhook-events.list": ApiRecord[];
+  "webhook-events.show": ApiRecord;
+  "banks.list": Bank[];
+  "charges.list": ApiRecord[];
+  "subscriptions.list": ApiRecord[];
+  "refunds.create": ApiRecord;
+  "refunds.cancel": unknown;
+  "exports.show": Export;
+  "exports.show-v2": Export;
+  "exports.create": Export;
+  "exports.create-transfers": Export;
+  "exports.create-transfer-intents": Export;
+  "exports.create-account-movements": Export;
+  "invitations.show": ApiRecord;
+  "invitations.accept": unknown;
+  "cidr-blocks.list": ApiRecord[];
+  "cidr-blocks.create": ApiRecord;
+  "cidr-blocks.delete": unknown;
+  "jws-keys.list": ApiRecord[];
+  "jws-keys.create": ApiRecord;
+  "shopify.create": ApiRecord;
+  "otps.create": ApiRecord;
+  "otps.validate": unknown;
+  "otps.deactivate": unknown;
+  "trusted-devices.revoke-all": unknown;
+  "debt-collection.organizations": ApiRecord[];
+  "debt-collection.initiate-commitment": unknown;
+  "clarifications.create": ApiRecord;
+  "roles.list": ApiRecord[];
+  "policies.list": ApiRecord[];
+}
+
+export type RouteName = keyof RouteParams;
+
+export type Params<K extends RouteName> = RouteParams[K] & CommonParams;
+
+export interface FintocClient {
+  user: {
+    /** Get current user info */
+    show(params?: Params<"user.show">, options?: RequestOptions): Promise<RouteResponses["user.show"]>;
+    /** Create user (name, last_name, jwt) */
+    create(params?: Params<"user.create">, options?: RequestOptions): Promise<RouteResponses["user.create"]>;
+    /** Update user (name, last_name) */
+    update(params?: Params<"user.update">, options?: RequestOptions): Promise<RouteResponses["user.update"]>;
+    /** Get user MFA status */
+    mfaStatus(params?: Params<"user.mfa-status">, options?: RequestOptions): Promise<RouteResponses["user.mfa-status"]>;
+    /** Update default organization (default_organization_id) */
+    defaultOrg(params: Params<"user.default-org">, options?: RequestOptions): Promise<RouteResponses["user.default-org"]>;
+    /** Get login strategy for email (--email) */
+    loginStrategy(params: Params<"user.login-strategy">, options?: RequestOptions): Promise<RouteResponses["user.login-strategy"]>;
+    /** Request password change (--email) */
+    changePassword(params: Params<"user.change-password">, options?: RequestOptions): Promise<RouteResponses["user.change-password"]>;
+  };
+  sessions: {
+    /** Create session from JWT (--jwt) */
+    create(params: Params<"sessions.create">, options?: RequestOptions): Promise<RouteResponses["sessions.create"]>;
+    /** Validate current session */
+    validate(params?: Params<"sessions.validate">, options?: RequestOptions): Promise<RouteResponses["sessions.validate"]>;
+    /** Activate session with MFA (--code, --should_trust_device) */
+    activate(params: Params<"sessions.activate">, options?: RequestOptions): Promise<RouteResponses["sessions.activate"]>;
+    /** Expire (logout) current session */
+    expire(params?: Params<"sessions.expire">, options?: RequestOptions): Promise<RouteResponses["sessions.expire"]>;
+    /** Extend current session */
+    extend(params?: Params<"sessions.extend">, options?: RequestOptions): Promise<RouteResponses["sessions.extend"]>;
+    /** Ping dashboard (health check) */
+    ping(params?: Params<"sessions.ping">, options?: RequestOptions): Promise<RouteResponses["sessions.ping"]>;
+  };
+  transfers: {
+    /** List transfers (--mode, --limit, --starting_after, etc.) */
+    list(params?: Params<"transfers.list">, options?: RequestOptions): Promise<RouteResponses["transfers.list"]>;
+    /** Show transfer by ID (--mode) */
+    show(params: Params<"transfers.show">, options?: RequestOptions): Promise<RouteResponses["transfers.show"]>;
+    /** Return a transfer (--transfer_id, --mode, --otp_code) */
+    return(params: Params<"transfers.return">, options?: RequestOptions): Promise<RouteResponses["transfers.return"]>;
+    /** Simulate receiving a transfer (--amount_units, --amount_currency, --number) */
+    simulateReceive(params?: Params<"transfers.simulate-receive">, options?: RequestOptions): Promise<RouteResponses["transfers.simulate-receive"]>;
+    /** Get transfer metadata keys (--mode) */
+    metadataKeys(params?: Params<"transfers.metadata-keys">, options?: RequestOptions): Promise<RouteResponses["transfers.metadata-keys"]>;
+    /** Download transfer receipt PDF (--mode, --out) */
+    receipt(params: Params<"transfers.receipt">, options?: RequestOptions): Promise<RouteResponses["transfers.receipt"]>;
+  };
+  transferIntents: {
+    /** List transfer intents (--mode, --limit, --status, --account_id, etc.) */
+    list(params?: Params<"transfer-intents.list">, options?: RequestOptions): Promise<RouteResponses["transfer-intents.list"]>;
+    /** Create transfer intent (--account_id, --amount, --currency, --counterparty.*, --metadata.*) */
+    create(params: Params<"transfer-intents.create">, options?: RequestOptions): Promise<RouteResponses["transfer-intents.create"]>;
+    /** Batch approve/reject transfer intents (--mode, --transfer_intent_ids, --decision, --otp_code) */
+    batchReview(params: Params<"transfer-intents.batch-review">, options?: RequestOptions): Promise<RouteResponses["transfer-intents.batch-review"]>;
+    /** Get count of approvable transfer intents (--mode) */
+    approvableCount(params?: Params<"transfer-intents.approvable-count">, options?: RequestOptions): Promise<RouteResponses["transfer-intents.approvable-count"]>;
+  };
+  transferBatches: {
+    /** List transfer batches (--mode, --limit, --status, etc.) */
+    list(params?: Params<"transfer-batches.list">, options?: RequestOptions): Promise<RouteResponses["transfer-batches.list"]>;
+    /** Show transfer batch by ID (--mode) */
+    show(params: Params<"transfer-batches.show">, options?: RequestOptions): Promise<RouteResponses["transfer-batches.show"]>;
+    /** Create transfer batch (--description, --currency, --rows, --otp_code, --mode) */
+    create(params: Params<"transfer-batches.create">, options?: RequestOptions): Promise<RouteResponses["transfer-batches.create"]>;
+    /** List intents in a batch (--mode, --limit, etc.) */
+    listIntents(params: Params<"transfer-batches.list-intents">, options?: RequestOptions): Promise<RouteResponses["transfer-batches.list-intents"]>;
+    /** Review (approve/reject) a batch (--mode, --decision, --otp_code) */
+    review(params: Params<"transfer-batches.review">, options?: RequestOptions): Promise<RouteResponses["transfer-batches.review"]>;
+    /** Get count of approvable batches (--mode) */
+    approvableCount(params?: Params<"transfer-batches.approvable-count">, options?: RequestOptions): Promise<RouteResponses["transfer-batches.approvable-count"]>;
+  };
+  payments: {
+    /** List payment intents (--mode, --limit, etc.) */
+    list(params?: Params<"payments.list">, options?: RequestOptions): Promise<RouteResponses["payments.list"]>;
+    /** Show payment intent by ID (--mode) */
+    show(params: Params<"payments.show">, options?: RequestOptions): Promise<RouteResponses["payments.show"]>;
+    /** Update payment intent (--customer_email, --mode) */
+    update(params: Params<"payments.update">, options?: RequestOptions): Promise<RouteResponses["payments.update"]>;
+    /** Send payment export email */
+    exportEmail(params?: Params<"payments.export-email">, options?: RequestOptions): Promise<RouteResponses["payments.export-email"]>;
+    /** Get payment metadata keys (--mode) */
+    metadataKeys(params?: Params<"payments.metadata-keys">, options?: RequestOptions): Promise<RouteResponses["payments.metadata-keys"]>;
+  };
+  paymentsOnboarding: {
+    /** Finalize payments onboarding */
+    finalize(params?: Params<"payments-onboarding.finalize">, options?: RequestOptions): Promise<RouteResponses["payments-onboarding.finalize"]>;
+    /** Get plan fees */
+    planFees(params?: Params<"payments-onboarding.plan-fees">, options?: RequestOptions): Promise<RouteResponses["payments-onboarding.plan-fees"]>;
+  };
+  payouts: {
+    /** List payouts (--mode, etc.) */
+    list(params?: Params<"payouts.list">, options?: RequestOptions): Promise<RouteResponses["payouts.list"]>;
+    /** Show payout by ID */
+    show(params: Params<"payouts.show">, options?: RequestOptions): Promise<RouteResponses["payouts.show"]>;
+    /** Get payouts summary (--mode, etc.) */
+    summary(params?: Params<"payouts.summary">, options?: RequestOptions): Promise<RouteResponses["payouts.summary"]>;
+    /** List payout recipient accounts */
+    recipientAccounts(params?: Params<"payouts.recipient-accounts">, options?: RequestOptions): Promise<RouteResponses["payouts.recipient-accounts"]>;
+    /** Get default payout recipient account */
+    defaultRecipientAccount(params?: Params<"payouts.default-recipient-account">, options?: RequestOptions): Promise<RouteResponses["payouts.default-recipient-account"]>;
+    /** Upsert default recipient account (--account_number, --holder_id, --institution_id, etc.) */
+    upsertDefaultRecipientAccount(params?: Params<"payouts.upsert-default-recipient-account">, options?: RequestOptions): Promise<RouteResponses["payouts.upsert-default-recipient-account"]>;
+  };
+  recipients: {
+    /** List recipients (--mode, --search, --holder_type, etc.) */
+    list(params?: Params<"recipients.list">, options?: RequestOptions): Promise<RouteResponses["recipients.list"]>;
+    /** Create recipient (--mode, --alias, --holder_name, --holder_id, --account_number, etc.) */
+    create(params?: Params<"recipients.create">, options?: RequestOptions): Promise<RouteResponses["recipients.create"]>;
+    /** Update recipient (--mode, --alias, --holder_name, etc.) */
+    update(params: Params<"recipients.update">, options?: RequestOptions): Promise<RouteResponses["recipients.update"]>;
+    /** Delete recipient (--mode) */
+    delete(params: Params<"recipients.delete">, options?: RequestOptions): Promise<RouteResponses["recipients.delete"]>;
+  };
+  links: {
+    /** List links (--mode, --institution_id, --page, --per_page, etc.) */
+    list(params?: Params<"links.list">, options?: RequestOptions): Promise<RouteResponses["links.list"]>;
+    /** Show link by ID (--mode) */
+    show(params: Params<"links.show">, options?: RequestOptions): Promise<RouteResponses["links.show"]>;
+    /** Update link (--link_data.active, --link_data.prevent_refresh, --mode) */
+    update(params: Params<"links.update">, options?: RequestOptions): Promise<RouteResponses["links.update"]>;
+    /** Delete link (--mode) */
+    delete(params: Params<"links.delete">, options?: RequestOptions): Promise<RouteResponses["links.delete"]>;
+    /** Regenerate link token (--mode) */
+    regenerate(params: Params<"links.regenerate">, options?: RequestOptions): Promise<RouteResponses["links.regenerate"]>;
+    /** List bank accounts for a link (--mode, --page, --per_page, etc.) */
+    bankAccounts(params: Params<"links.bank-accounts">, options?: RequestOptions): Promise<RouteResponses["links.bank-accounts"]>;
+  };
+  accountNumbers: {
+    /** List account numbers (--mode, etc.) */
+    list(params?: Params<"account-numbers.list">, options?: RequestOptions): Promise<RouteResponses["account-numbers.list"]>;
+    /** Create account number (--mode, --account_id, --description, --metadata.*, --options.*) */
+    create(params?: Params<"account-numbers.create">, options?: RequestOptions): Promise<RouteResponses["account-numbers.create"]>;
+    /** Update account number (--mode, --description, --metadata.*, --status, --options.*) */
+    update(params: Params<"account-numbers.update">, options?: RequestOptions): Promise<RouteResponses["account-numbers.update"]>;
+    /** Get account number metadata keys (--mode) */
+    metadataKeys(params?: Params<"account-numbers.metadata-keys">, options?: RequestOptions): Promise<RouteResponses["account-numbers.metadata-keys"]>;
+  };
+  accounts: {
+    /** List accounts (--mode, --limit, --description, --account_id, --entity_id, etc.) */
+    list(params?: Params<"accounts.list">, options?: RequestOptions): Promise<RouteResponses["accounts.list"]>;
+    /** Show account by ID (--mode) */
+    show(params: Params<"accounts.show">, options?: RequestOptions): Promise<RouteResponses["accounts.show"]>;
+    /** Create account (--mode, --entity_id, --description) */
+    create(params?: Params<"accounts.create">, options?: RequestOptions): Promise<RouteResponses["accounts.create"]>;
+    /** Update account (--mode, --description) */
+    update(params: Params<"accounts.update">, options?: RequestOptions): Promise<RouteResponses["accounts.update"]>;
+    /** Block account (--mode) */
+    block(params: Params<"accounts.block">, options?: RequestOptions): Promise<RouteResponses["accounts.block"]>;
+    /** Get total balance (--mode, --currency) */
+    totalBalance(params?: Params<"accounts.total-balance">, options?: RequestOptions): Promise<RouteResponses["accounts.total-balance"]>;
+    /** List account movements (--mode, --limit, etc.) */
+    movements(params: Params<"accounts.movements">, options?: RequestOptions): Promise<RouteResponses["accounts.movements"]>;
+    /** Show an account movement (--mode) */
+    movement(params: Params<"accounts.movement">, options?: RequestOptions): Promise<RouteResponses["accounts.movement"]>;
+  };
+  entities: {
+    /** List entities (--mode, --limit, --status, etc.) */
+    list(params?: Params<"entities.list">, options?: RequestOptions): Promise<RouteResponses["entities.list"]>;
+    /** List entities (minimal) (--mode, --limit, --status, etc.) */
+    listMinimal(params?: Params<"entities.list-minimal">, options?: RequestOptions): Promise<RouteResponses["entities.list-minimal"]>;
+    /** Show entity by ID (--mode) */
+    show(params: Params<"entities.show">, options?: RequestOptions): Promise<RouteResponses["entities.show"]>;
+    /** Create entity (--mode, --holder_name, --holder_id) */
+    create(params?: Params<"entities.create">, options?: RequestOptions): Promise<RouteResponses["entities.create"]>;
+  };
+  organizations: {
+    /** Get current organization */
+    show(params?: Params<"organizations.show">, options?: RequestOptions): Promise<RouteResponses["organizations.show"]>;
+    /** Create organization (--name, --country) */
+    create(params: Params<"organizations.create">, options?: RequestOptions): Promise<RouteResponses["organizations.create"]>;
+    /** Update organization (--organization_data.technical_email, --organization_data.name, etc.) */
+    update(params: Params<"organizations.update">, options?: RequestOptions): Promise<RouteResponses["organizations.update"]>;
+    /** Update MFA requirement (--requires_mfa) */
+    updateMfa(params: Params<"organizations.update-mfa">, options?: RequestOptions): Promise<RouteResponses["organizations.update-mfa"]>;
+    /** Update IP allowlist setting (--uses_ip_allowlist, --mode) */
+    updateIpAllowlist(params: Params<"organizations.update-ip-allowlist">, options?: RequestOptions): Promise<RouteResponses["organizations.update-ip-allowlist"]>;
+  };
+  organizationUsers: {
+    /** List organization users */
+    list(params?: Params<"organization-users.list">, options?: RequestOptions): Promise<RouteResponses["organization-users.list"]>;
+    /** Create organization user (--name, --last_name, --email, --organization_role, --dashboard_role_name) */
+    create(params: Params<"organization-users.create">, options?: RequestOptions): Promise<RouteResponses["organization-users.create"]>;
+    /** Update organization user (--user_data.name, --user_data.last_name, --user_data.organization_role, etc.) */
+    update(params: Params<"organization-users.update">, options?: RequestOptions): Promise<RouteResponses["organization-users.update"]>;
+    /** Delete organization user */
+    delete(params: Params<"organization-users.delete">, options?: RequestOptions): Promise<RouteResponses["organization-users.delete"]>;
+    /** Get current organization user */
+    current(params?: Params<"organization-users.current">, options?: RequestOptions): Promise<RouteResponses["organization-users.current"]>;
+    /** Resend invitation email (--email) */
+    resendInvitation(params: Params<"organization-users.resend-invitation">, options?: RequestOptions): Promise<RouteResponses["organization-users.resend-invitation"]>;
+  };
+  setupLinks: {
+    /** Get setup link by token */
+    show(params: Params<"setup-links.show">, options?: RequestOptions): Promise<RouteResponses["setup-links.show"]>;
+    /** Redeem setup link (--organization_name) */
+    redeem(params: Params<"setup-links.redeem">, options?: RequestOptions): Promise<RouteResponses["setup-links.redeem"]>;
+  };
+  apiKeys: {
+    /** List API keys (--mode) */
+    list(params?: Params<"api-keys.list">, options?: RequestOptions): Promise<RouteResponses["api-keys.list"]>;
+    /** Create API key (--mode) */
+    create(params?: Params<"api-keys.create">, options?: RequestOptions): Promise<RouteResponses["api-keys.create"]>;
+    /** Roll API key (--delay_hours, --mode) */
+    roll(params: Params<"api-keys.roll">, options?: RequestOptions): Promise<RouteResponses["api-keys.roll"]>;
+    /** Expire API key (--mode) */
+    expire(params: Params<"api-keys.expire">, options?: RequestOptions): Promise<RouteResponses["api-keys.expire"]>;
+  };
+  billing: {
+    /** Get billing organization info */
+    show(params?: Params<"billing.show">, options?: RequestOptions): Promise<RouteResponses["billing.show"]>;
+    /** Update billing organization (--billing_emails, --business_name, --business_address, etc.) */
+    update(params?: Params<"billing.update">, options?: RequestOptions): Promise<RouteResponses["billing.update"]>;
+    /** Upsert billing organization (CL: --rut, --business_name; MX: --rfc, etc.) */
+    upsert(params?: Params<"billing.upsert">, options?: RequestOptions): Promise<RouteResponses["billing.upsert"]>;
+    /** List billing invoices */
+    invoices(params?: Params<"billing.invoices">, options?: RequestOptions): Promise<RouteResponses["billing.invoices"]>;
+    /** Download invoice files by folio (--out) */
+    downloadInvoice(params: Params<"billing.download-invoice">, options?: RequestOptions): Promise<RouteResponses["billing.download-invoice"]>;
+    /** List fiscal regimes */
+    fiscalRegimes(params?: Params<"billing.fiscal-regimes">, options?: RequestOptions): Promise<RouteResponses["billing.fiscal-regimes"]>;
+  };
+  analytics: {
+    /** Payment analytics (date range, filters) */
+    payments(params?: Params<"analytics.payments">, options?: RequestOptions): Promise<RouteResponses["analytics.payments"]>;
+    /** Refund analytics */
+    refunds(params?: Params<"analytics.refunds">, options?: RequestOptions): Promise<RouteResponses["analytics.refunds"]>;
+    /** Payment methods analytics */
+    paymentMethods(params?: Params<"analytics.payment-methods">, options?: RequestOptions): Promise<RouteResponses["analytics.payment-methods"]>;
+  };
+  webhookEndpoints: {
+    /** List webhook endpoints (--mode) */
+    list(params?: Params<"webhook-endpoints.list">, options?: RequestOptions): Promise<RouteResponses["webhook-endpoints.list"]>;
+    /** Show webhook endpoint (--mode) */
+    show(params: Params<"webhook-endpoints.show">, options?: RequestOptions): Promise<RouteResponses["webhook-endpoints.show"]>;
+    /** Create webhook endpoint (--name, --url, --enabled_events, --mode) */
+    create(params: Params<"webhook-endpoints.create">, options?: RequestOptions): Promise<RouteResponses["webhook-endpoints.create"]>;
+    /** Update webhook endpoint (--name, --url, --enabled_events, --disabled, --mode) */
+    update(params: Params<"webhook-endpoints.update">, options?: RequestOptions): Promise<RouteResponses["webhook-endpoints.update"]>;
+    /** Delete webhook endpoint (--mode) */
+    delete(params: Params<"webhook-endpoints.delete">, options?: RequestOptions): Promise<RouteResponses["webhook-endpoints.delete"]>;
+    /** Get webhook endpoint secret (--mode) */
+    secret(params: Params<"webhook-endpoints.secret">, options?: RequestOptions): Promise<RouteResponses["webhook-endpoints.secret"]>;
+    /** Send test webhook (--event, --mode) */
+    test(params: Params<"webhook-endpoints.test">, options?: RequestOptions): Promise<RouteResponses["webhook-endpoints.test"]>;
+  };
+  webhookEvents: {
+    /** List webhook event messages (--mode, --limit, etc.) */
+    list(params?: Params<"webhook-events.list">, options?: RequestOptions): Promise<RouteResponses["webhook-events.list"]>;
+    /** Show webhook event message (--mode) */
+    show(params: Params<"webhook-events.show">, options?: RequestOptions): Promise<RouteResponses["webhook-events.show"]>;
+  };
+  banks: {
+    /** List banks (--country) */
+    list(params?: Params<"banks.list">, options?: RequestOptions): Promise<RouteResponses["banks.list"]>;
+  };
+  charges: {
+    /** List charges */
+    list(params?: Params<"charges.list">, options?: RequestOptions): Promise<RouteResponses["charges.list"]>;
+  };
+  subscriptions: {
+    /** List subscriptions */
+    list(params?: Params<"subscriptions.list">, options?: RequestOptions): Promise<RouteResponses["subscriptions.list"]>;
+  };
+  refunds: {
+    /** Create refund (--resource_type, --resource_id, --amount, --mode) */
+    create(params: Params<"refunds.create">, options?: RequestOptions): Promise<RouteResponses["refunds.create"]>;
+    /** Cancel refund (--mode) */
+    cancel(params: Params<"refunds.cancel">, options?: RequestOptions): Promise<RouteResponses["refunds.cancel"]>;
+  };
+  exports: {
+    /** Show export by ID (--mode) */
+    show(params: Params<"exports.show">, options?: RequestOptions): Promise<RouteResponses["exports.show"]>;
+    /** Show export by ID v2 (--mode) */
+    showV2(params: Params<"exports.show-v2">, options?: RequestOptions): Promise<RouteResponses["exports.show-v2"]>;
+    /** Create payment export (--product, --file_type, --export_format, --mode, --wait, --out) */
+    create(params?: Params<"exports.create">, options?: RequestOptions): Promise<RouteResponses["exports.create"]>;
+    /** Create transfers export (--product, --file_type, --export_format, --mode, --wait, --out) */
+    createTransfers(params?: Params<"exports.create-transfers">, options?: RequestOptions): Promise<RouteResponses["exports.create-transfers"]>;
+    /** Create transfer intents export (--wait, --out) */
+    createTransferIntents(params?: Params<"exports.create-transfer-intents">, options?: RequestOptions): Promise<RouteResponses["exports.create-transfer-intents"]>;
+    /** Create account movements export (--wait, --out) */
+    createAccountMovements(params?: Params<"exports.create-account-movements">, options?: RequestOptions): Promise<RouteResponses["exports.create-account-movements"]>;
+  };
+  invitations: {
+    /** Get invitation by token */
+    show(params: Params<"invitations.show">, options?: RequestOptions): Promise<RouteResponses["invitations.show"]>;
+    /** Accept invitation by token */
+    accept(params: Params<"invitations.accept">, options?: RequestOptions): Promise<RouteResponses["invitations.accept"]>;
+  };
+  cidrBlocks: {
+    /** List allowed CIDR blocks (--mode) */
+    list(params?: Params<"cidr-blocks.list">, options?: RequestOptions): Promise<RouteResponses["cidr-blocks.list"]>;
+    /** Create allowed CIDR block (--mode, --cidr_block) */
+    create(params: Params<"cidr-blocks.create">, options?: RequestOptions): Promise<RouteResponses["cidr-blocks.create"]>;
+    /** Delete allowed CIDR block (--mode) */
+    delete(params: Params<"cidr-blocks.delete">, options?: RequestOptions): Promise<RouteResponses["cidr-blocks.delete"]>;
+  };
+  jwsKeys: {
+    /** List JWS public keys (--mode) */
+    list(params?: Params<"jws-keys.list">, options?: RequestOptions): Promise<RouteResponses["jws-keys.list"]>;
+    /** Create JWS public key (--mode, --key_text, --otp_code, --previous_key_expiration_delay_hours) */
+    create(params: Params<"jws-keys.create">, options?: RequestOptions): Promise<RouteResponses["jws-keys.create"]>;
+  };
+  shopify: {
+    /** Create Shopify shop (--shop_domain, --country) */
+    create(params: Params<"shopify.create">, options?: RequestOptions): Promise<RouteResponses["shopify.create"]>;
+  };
+  otps: {
+    /** Create OTP (returns provisioning URI) */
+    create(params?: Params<"otps.create">, options?: RequestOptions): Promise<RouteResponses["otps.create"]>;
+    /** Validate OTP (--code) */
+    validate(params: Params<"otps.validate">, options?: RequestOptions): Promise<RouteResponses["otps.validate"]>;
+    /** Deactivate OTP */
+    deactivate(params?: Params<"otps.deactivate">, options?: RequestOptions): Promise<RouteResponses["otps.deactivate"]>;
+  };
+  trustedDevices: {
+    /** Revoke all trusted devices */
+    revokeAll(params?: Params<"trusted-devices.revoke-all">, options?: RequestOptions): Promise<RouteResponses["trusted-devices.revoke-all"]>;
+  };
+  debtCollection: {
+    /** List debt collection organizations (--page, --per_page) */
+    organizations(params?: Params<"debt-collection.organizations">, options?: RequestOptions): Promise<RouteResponses["debt-collection.organizations"]>;
+    /** Initiate commitment conversation */
+    initiateCommitment(params: Params<"debt-collection.initiate-commitment">, options?: RequestOptions): Promise<RouteResponses["debt-collection.initiate-commitment"]>;
+  };
+  clarifications: {
+    /** Create clarification (--default_title, --movement_id, --mode, --clarification_type, --clarification_reason, --affected_resource) */
+    create(params?: Params<"clarifications.create">, options?: RequestOptions): Promise<RouteResponses["clarifications.create"]>;
+  };
+  roles: {
+    /** List roles */
+    list(params?: Params<"roles.list">, options?: RequestOptions): Promise<RouteResponses["roles.list"]>;
+  };
+  policies: {
+    /** List policies */
+    list(params?: Params<"policies.list">, options?: RequestOptions): Promise<RouteResponses["policies.list"]>;
+  };
+}
+
+/** Sends one route; see callRoute() in client.ts. */
+export type RouteCaller = <K extends RouteName>(name: K, params?: Params<K>, options?: RequestOptions) => Promise<RouteResponses[K]>;
+
+/** Every FintocClient method, bound to its route key. */
+export function buildFintocClient(call: RouteCaller): FintocClient {
+  return {
+    user: {
+      show: (params, options) => call("user.show", params, options),
+      create: (params, options) => call("user.create", params, options),
+      update: (params, options) => call("user.update", params, options),
+      mfaStatus: (params, options) => call("user.mfa-status", params, options),
+      defaultOrg: (params, options) => call("user.default-org", params, options),
+      loginStrategy: (params, options) => call("user.login-strategy", params, options),
+      changePassword: (params, options) => call("user.change-password", params, options),
+    },
+    sessions: {
+      create: (params, options) => call("sessions.create", params, options),
+      validate: (params, options) => call("sessions.validate", params, options),
+      activate: (params, options) => call("sessions.activate", params, options),
+      expire: (params, options) => call("sessions.expire", params, options),
+      extend: (params, options) => call("sessions.extend", params, options),
+      ping: (params, options) => call("sessions.ping", params, options),
+    },
+    transfers: {
+      list: (params, options) => call("transfers.list", params, options),
+      show: (params, options) => call("transfers.show", params, options),
+      return: (params, options) => call("transfers.return", params, options),
+      simulateReceive: (params, options) => call("transfers.simulate-receive", params, options),
+      metadataKeys: (params, options) => call("transfers.metadata-keys", params, options),
+      receipt: (params, options) => call("transfers.receipt", params, options),
+    },
+    transferIntents: {
+      list: (params, options) => call("transfer-intents.list", params, options),
+      create: (params, options) => call("transfer-intents.create", params, options),
+      batchReview: (params, options) => call("transfer-intents.batch-review", params, options),
+      approvableCount: (params, options) => call("transfer-intents.approvable-count", params, options),
+    },
+    transferBatches: {
+      list: (params, options) => call("transfer-batches.list", params, options),
+      show: (params, options) => call("transfer-batches.show", params, options),
+      create: (params, options) => call("transfer-batches.create", params, options),
+      listIntents: (params, options) => call("transfer-batches.list-intents", params, options),
+      review: (params, options) => call("transfer-batches.review", params, options),
+      approvableCount: (params, options) => call("transfer-batches.approvable-count", params, options),
+    },
+    payments: {
+      list: (params, options) => call("payments.list", params, options),
+      show: (params, options) => call("payments.show", params, options),
+      update: (params, options) => call("payments.update", params, options),
+      exportEmail: (params, options) => call("payments.export-email", params, options),
+      metadataKeys: (params, options) => call("payments.metadata-keys", params, options),
+    },
+    paymentsOnboarding: {
+      finalize: (params, options) => call("payments-onboarding.finalize", params, options),
+      planFees: (params, options) => call("payments-onboarding.plan-fees", params, options),
+    },
+    payouts: {
+      list: (params, options) => call("payouts.list", params, options),
+      show: (params, options) => call("payouts.show", params, options),
+      summary: (params, options) => call("payouts.summary", params, options),
+      recipientAccounts: (params, options) => call("payouts.recipient-accounts", params, options),
+      defaultRecipientAccount: (params, options) => call("payouts.default-recipient-account", params, options),
+      upsertDefaultRecipientAccount: (params, options) => call("payouts.upsert-default-recipient-account", params, options),
+    },
+    recipients: {
+      list: (params, options) => call("recipients.list", params, options),
+      create: (params, options) => call("recipients.create", params, options),
+      update: (params, options) => call("recipients.update", params, options),
+      delete: (params, options) => call("recipients.delete", params, options),
+    },
+    links: {
+      list: (params, options) => call("links.list", params, options),
+      show: (params, options) => call("links.show", params, options),
+      update: (params, options) => call("links.update", params, options),
+      delete: (params, options) => call("links.delete", params, options),
+      regenerate: (params, options) => call("links.regenerate", params, options),
+      bankAccounts: (params, options) => call("links.bank-accounts", params, options),
+    },
+    accountNumbers: {
+      list: (params, options) => call("account-numbers.list", params, options),
+      create: (params, options) => call("account-numbers.create", params, options),
+      update: (params, options) => call("account-numbers.update", params, options),
+      metadataKeys: (params, options) => call("account-numbers.metadata-keys", params, options),
+    },
+    accounts: {
+      list: (params, options) => call("accounts.list", params, options),
+      show: (params, options) => call("accounts.show", params, options),
+      create: (params, options) => call("accounts.create", params, options),
+      update: (params, options) => call("accounts.update", params, options),
+      block: (params, options) => call("accounts.block", params, options),
+      totalBalance: (params, options) => call("accounts.total-balance", params, options),
+      movements: (params, options) => call("accounts.movements", params, options),
+      movement: (params, options) => call("accounts.movement", params, options),
+    },
+    entities: {
+      list: (params, options) => call("entities.list", params, options),
+      listMinimal: (params, options) => call("entities.list-minimal", params, options),
+      show: (params, options) => call("entities.show", params, options),
+      create: (params, options) => call("entities.create", params, options),
+    },
+    organizations: {
+      show: (params, options) => call("organizations.show", params, options),
+      create: (params, options) => call("organizations.create", params, options),
+      update: (params, options) => call("organizations.update", params, options),
+      updateMfa: (params, options) => call("organizations.update-mfa", params, options),
+      updateIpAllowlist: (params, options) => call("organizations.update-ip-allowlist", params, options),
+    },
+    organizationUsers: {
+      list: (params, options) => call("organization-users.list", params, options),
+      create: (params, options) => call("organization-users.create", params, options),
+      update: (params, options) => call("organization-users.update", params, options),
+      delete: (params, options) => call("organization-users.delete", params, options),
+      current: (params, options) => call("organization-users.current", params, options),
+      resendInvitation: (params, options) => call("organization-users.resend-invitation", params, options),
+    },
+    setupLinks: {
+      show: (params, options) => call("setup-links.show", params, options),
+      redeem: (params, options) => call("setup-links.redeem", params, options),
+    },
+    apiKeys: {
+      list: (params, options) => call("api-keys.list", params, options),
+      create: (params, options) => call("api-keys.create", params, options),
+      roll: (params, options) => call("api-keys.roll", params, options),
+      expire: (params, options) => call("api-keys.expire", params, options),
+    },
+    billing: {
+      show: (params, options) => call("billing.show", params, options),
+      update: (params, options) => call("billing.update", params, options),
+      upsert: (params, options) => call("billing.upsert", params, options),
+      invoices: (params, options) => call("billing.invoices", params, options),
+      downloadInvoice: (params, options) => call("billing.download-invoice", params, options),
+      fiscalRegimes: (params, options) => call("billing.fiscal-regimes", params, options),
+    },
+    analytics: {
+      payments: (params, options) => call("analytics.payments", params, options),
+      refunds: (params, options) => call("analytics.refunds", params, options),
+      paymentMethods: (params, options) => call("analytics.payment-methods", params, options),
+    },
+    webhookEndpoints: {
+      list: (params, options) => call("webhook-endpoints.list", params, options),
+      show: (params, options) => call("webhook-endpoints.show", params, options),
+      create: (params, options) => call("webhook-endpoints.create", params, options),
+      update: (params, options) => call("webhook-endpoints.update", params, options),
+      delete: (params, options) => call("webhook-endpoints.delete", params, options),
+      secret: (params, options) => call("webhook-endpoints.secret", params, options),
+      test: (params, options) => call("webhook-endpoints.test", params, options),
+    },
+    webhookEvents: {
+      list: (params, options) => call("webhook-events.list", params, options),
+      show: (params, options) => call("webhook-events.show", params, options),
+    },
+    banks: {
+      list: (params, options) => call("banks.list", params, options),
+    },
+    charges: {
+      list: (params, options) => call("charges.list", params, options),
+    },
+    subscriptions: {
+      list: (params, options) => call("subscriptions.list", params, options),
+    },
+    refunds: {
+      create: (params, options) => call("refunds.create", params, options),
+      cancel: (params, options) => call("refunds.cancel", params, options),
+    },
+    exports: {
+      show: (params, options) => call("exports.show", params, options),
+      showV2: (params, options) => call("exports.show-v2", params, options),
+      create: (params, options) => call("exports.create", params, options),
+      createTransfers: (params, options) => call("exports.create-transfers", params, options),
+      createTransferIntents: (params, options) => call("exports.create-transfer-intents", params, options),
+      createAccountMovements: (params, options) => call("exports.create-account-movements", params, options),
+    },
+    invitations: {
+      show: (params, options) => call("invitations.show", params, options),
+      accept: (params, options) => call("invitations.accept", params, options),
+    },
+    cidrBlocks: {
+      list: (params, options) => call("cidr-blocks.list", params, options),
+      create: (params, options) => call("cidr-blocks.create", params, options),
+      delete: (params, options) => call("cidr-blocks.delete", params, options),
+    },
+    jwsKeys: {
+      list: (params, options) => call("jws-keys.list", params, options),
+      create: (params, options) => call("jws-keys.create", params, options),
+    },
+    shopify: {
+      create: (params, options) => call("shopify.create", params, options),
+    },
+    otps: {
+      create: (params, options) => call("otps.create", params, options),
+      validate: (params, options) => call("otps.validate", params, options),
+      deactivate: (params, options) => call("otps.deactivate", params, options),
+    },
+    trustedDevices: {
+      revokeAll: (params, options) => call("trusted-devices.revoke-all", params, options),
+    },
+    debtCollection: {
+      organizations: (params, options) => call("debt-collection.organizations", params, options),
+      initiateCommitment: (params, options) => call("debt-collection.initiate-commitment", params, options),
+    },
+    clarifications: {
+      create: (params, options) => call("clarifications.create", params, options),
+    },
+    roles: {
+      list: (params, options) => call("roles.list", params, options),
+    },
+    policies: {
+      list: (params, options) => call("policies.list", params, options),
+    },
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Response models and shared option types for the typed client.
+ *
+ * Models list the fields the dashboard relies on; the API may return
+ * more, which stay reachable through the index signature.
+ */
+
+/** Any API object with an id; used for resources without a dedicated model. */
+export interface ApiRecord {
+  id: string;
+  [field: string]: unknown;
+}
+
+export type Mode = "live" | "test";
+export type Currency = "CLP" | "MXN";
+
+export interface Counterparty {
+  holder_name?: string;
+  holder_id?: string;
+  institution_id?: string;
+  type?: string;
+  account_number?: string;
+  [field: string]: unknown;
+}
+
+export interface User extends ApiRecord {
+  email: string;
+  name?: string;
+  last_name?: string;
+  default_organization_id?: string;
+}
+
+export interface Organization extends ApiRecord {
+  name: string;
+  country?: string;
+}
+
+export interface Account extends ApiRecord {
+  mode: Mode;
+  description?: string;
+  currency: Currency;
+  available_balance?: number;
+  status?: string;
+}
+
+export interface Movement extends ApiRecord {
+  account_id: string;
+  mode: Mode;
+  /** Negative for outbound movements */
+  amount: number;
+  currency: Currency;
+  direction?: "inbound" | "outbound";
+}
+
+export interface Transfer extends ApiRecord {
+  mode: Mode;
+  account_id: string;
+  amount: number;
+  currency: Currency;
+  direction: "inbound" | "outbound";
+  status: string;
+  counterparty?: Counterparty;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TransferIntent extends ApiRecord {
+  mode: Mode;
+  account_id: string;
+  status: string;
+  amount?: number;
+  currency?: Currency;
+  counterparty?: Counterparty;
+  transfer_id?: string;
+}
+
+export interface TransferBatch extends ApiRecord {
+  mode: Mode;
+  status: string;
+  description?: string;
+}
+
+export interface Recipient extends ApiRecord, Counterparty {
+  mode: Mode;
+  alias?: string;
+}
+
+export interface WebhookEndpoint extends ApiRecord {
+  mode: Mode;
+  name?: string;
+  url: string;
+  enabled_events: string[];
+  disabled: boolean;
+}
+
+export interface Bank extends ApiRecord {
+  name: string;
+  country: string;
+  code?: string;
+}
+
+/** See exports.ts for the statuses and download URL fields. */
+export interface Export extends ApiRecord {
+  status?: string;
+  url?: string;
+  file_url?: string;
+  download_url?: string;
+}
+
+export interface Balance {
+  total_balance: number;
+  currency: Currency;
+}
+
+/** Routes with responseType "arraybuffer". */
+export interface FileResponse {
+  bytes: Uint8Array;
+  /** Response headers (content-type, content-disposition, ...) */
+  headers: Record<string, string>;
+}
+
+/** Accepted by every method, on top of the route's own params. */
+export interface CommonParams {
+  /** Overrides the client's organizationId for this call */
+  current_organization_id?: string;
+}
+
+export interface RequestOptions {
+  /** Reuse a key to retry a money-moving request without a duplicate submit */
+  idempotencyKey?: string;
+  /** Per-attempt timeout; defaults to config.api.timeoutMs */
+  timeoutMs?: number;
+  /** Paginated lists: fetch every page and return the concatenated items */
+  all?: boolean;
+  /** With `all`, stop after this many pages (default DEFAULT_MAX_PAGES) */
+  maxPages?: number;
+}
@@ -0,0 +1,84 @@
+/**
+ * Render a resolved request (see --dry-run) as text:
+ * - http:   request line, headers and body as sent over the wire
+ * - curl:   copy-pasteable curl command
+ * - httpie: copy-pasteable HTTPie command
+ *
+ * The URL already carries the query string built by apiRequest()
+ * (arrays as key[]=, objects as key[sub]=), so snippets reproduce the
+ * exact encoding. The session token is never printed: shell snippets
+ * read it from $FINTOC_SESSION_TOKEN.
+ */
+
+export const REQUEST_FORMATS = ["http", "curl", "httpie"] as const;
+export type RequestFormat = (typeof REQUEST_FORMATS)[number];
+
+export interface RequestDescription {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+const TOKEN_HEADER = "x-session-token";
+const TOKEN_VARIABLE = "$FINTOC_SESSION_TOKEN";
+
+/**
+ * Quote a value for POSIX shells.
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function renderHttp(request: RequestDescription): string {
+  const lines = [`${request.method} ${request.url}`];
+  for (const [name, value] of Object.entries(request.headers)) {
+    lines.push(`${name}: ${value}`);
+  }
+  if (request.body !== undefined) {
+    lines.push("", JSON.stringify(request.body, null, 2));
+  }
+  return lines.join("\n");
+}
+
+function renderCurl(request: RequestDescription): string {
+  // -g: keep curl from treating metadata[key]= brackets as URL globs
+  const parts = [`curl -g -X ${request.method} ${shellQuote(request.url)}`];
+  for (const [name, value] of Object.entries(request.headers)) {
+    parts.push(
+      name.toLowerCase() === TOKEN_HEADER
+        ? `-H "${name}: ${TOKEN_VARIABLE}"`
+        : `-H ${shellQuote(`${name}: ${value}`)}`
+    );
+  }
+  if (request.body !== undefined) {
+    parts.push(`--data-raw ${shellQuote(JSON.stringify(request.body))}`);
+  }
+  return parts.join(" \\\n  ");
+}
+
+function renderHttpie(request: RequestDescription): string {
+  const parts = [`http ${request.method} ${shellQuote(request.url)}`];
+  for (const [name, value] of Object.entries(request.headers)) {
+    parts.push(
+      name.toLowerCase() === TOKEN_HEADER
+        ? `"${name}:${TOKEN_VARIABLE}"`
+        : shellQuote(`${name}:${value}`)
+    );
+  }
+  if (request.body !== undefined) {
+    parts.push(`--raw ${shellQuote(JSON.stringify(request.body))}`);
+  }
+  return parts.join(" \\\n  ");
+}
+
+export function renderRequest(request: RequestDescription, format: RequestFormat = "http"): string {
+  switch (format) {
+    case "http":
+      return renderHttp(request);
+    case "curl":
+      return renderCurl(request);
+    case "httpie":
+      return renderHttpie(request);
+  }
+}
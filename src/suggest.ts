@@ -0,0 +1,131 @@
+/**
+ * "Did you mean" suggestions for unknown resources, actions and flags.
+ *
+ * Candidates are ranked by edit distance after normalizing case,
+ * underscores vs dashes and singular/plural, so "transfer_intent"
+ * matches "transfer-intents" exactly.
+ */
+
+import { getGroupedCommands } from "./routes.ts";
+import type { RouteDefinition } from "./routes.ts";
+
+const MAX_SUGGESTIONS = 3;
+
+/** Common action synonyms people reach for. */
+const ACTION_ALIASES: Record<string, string> = {
+  ls: "list",
+  get: "show",
+  view: "show",
+  new: "create",
+  add: "create",
+  rm: "delete",
+  remove: "delete",
+  edit: "update",
+};
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/_/g, "-").replace(/s$/, "");
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]!;
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]!;
+      previous[j] = Math.min(
+        above + 1,
+        previous[j - 1]! + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Rank candidates by similarity to input. Only reasonably close matches are returned.
+ */
+export function suggest(input: string, candidates: string[]): string[] {
+  const target = normalize(input);
+  if (!target) return [];
+  const threshold = Math.max(2, Math.floor(target.length / 3));
+
+  const ranked = candidates
+    .map((candidate) => {
+      const normalized = normalize(candidate);
+      let distance = editDistance(target, normalized);
+      // Prefix matches ("transf" -> "transfers") are good suggestions too
+      if (normalized.startsWith(target) && target.length >= 3) distance = Math.min(distance, 1);
+      return { candidate, distance };
+    })
+    .filter((s) => s.distance <= threshold)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate));
+
+  // A normalized exact match (plural, dashes) is unambiguous
+  const exact = ranked.filter((s) => s.distance === 0);
+  return (exact.length > 0 ? exact : ranked).slice(0, MAX_SUGGESTIONS).map((s) => s.candidate);
+}
+
+export function suggestResources(resource: string): string[] {
+  return suggest(resource, Object.keys(getGroupedCommands()));
+}
+
+export function suggestActions(resource: string, action: string): string[] {
+  const actions = getGroupedCommands()[resource]?.map((a) => a.action) ?? [];
+  const alias = ACTION_ALIASES[action.toLowerCase()];
+  const aliased = alias && actions.includes(alias) ? [alias] : [];
+  return [...new Set([...aliased, ...suggest(action, actions)])].slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Suggest full "resource action" commands for an unknown command.
+ */
+export function suggestCommands(resource: string, action: string): string[] {
+  const grouped = getGroupedCommands();
+  const resources = grouped[resource] ? [resource] : suggestResources(resource);
+
+  const commands: string[] = [];
+  for (const candidate of resources) {
+    const actions = grouped[candidate]?.map((a) => a.action) ?? [];
+    const matches = actions.includes(action) ? [action] : suggestActions(candidate, action);
+    commands.push(...matches.map((match) => `${candidate} ${match}`));
+  }
+  // Fall back to the resource alone when no action is close
+  return commands.length > 0 ? commands.slice(0, MAX_SUGGESTIONS) : resources;
+}
+
+/**
+ * Find flags that look like typos of declared flags.
+ * Returns a map of unknown flag -> suggested declared flags.
+ */
+export function suggestFlags(
+  flags: Record<string, unknown>,
+  route: RouteDefinition,
+  ignore: readonly string[] = []
+): Record<string, string[]> {
+  const declared = (route.flags ?? []).map((f) => f.name);
+  const result: Record<string, string[]> = {};
+  for (const name of Object.keys(flags)) {
+    if (declared.includes(name) || ignore.includes(name)) continue;
+    const matches = suggest(name, declared);
+    if (matches.length > 0) result[name] = matches;
+  }
+  return result;
+}
+
+/**
+ * Render a "Did you mean" sentence, or an empty string when there is nothing to suggest.
+ */
+export function didYouMean(suggestions: string[], prefix = ""): string {
+  if (suggestions.length === 0) return "";
+  const quoted = suggestions.map((s) => `"${prefix}${s}"`);
+  return quoted.length === 1
+    ? ` Did you mean ${quoted[0]}?`
+    : ` Did you mean one of: ${quoted.join(", ")}?`;
+}